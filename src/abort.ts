@@ -0,0 +1,70 @@
+import { LegitmarkError } from './errors';
+
+/**
+ * Create the error thrown when an operation is cancelled through its `signal`.
+ * @internal
+ */
+export function createAbortError(signal?: AbortSignal, cause?: unknown): LegitmarkError {
+  const reason = signal?.reason;
+  const detail = reason instanceof Error ? reason.message : typeof reason === 'string' ? reason : undefined;
+
+  return new LegitmarkError('ABORT_ERROR', detail ? `Operation aborted: ${detail}` : 'Operation aborted', {
+    isRetryable: false,
+    cause: cause ?? reason,
+  });
+}
+
+/**
+ * Throw an `ABORT_ERROR` if the signal has already been aborted.
+ * @internal
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw createAbortError(signal);
+  }
+}
+
+/**
+ * Wait for `ms` milliseconds, rejecting early with an `ABORT_ERROR` when the signal aborts.
+ * @internal
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError(signal));
+      return;
+    }
+
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(createAbortError(signal));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Settle with `promise`, or reject with an `ABORT_ERROR` as soon as the
+ * signal aborts. The underlying work is not cancelled.
+ * @internal
+ */
+export function raceAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(createAbortError(signal));
+      return;
+    }
+
+    const onAbort = (): void => reject(createAbortError(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
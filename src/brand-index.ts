@@ -0,0 +1,226 @@
+/**
+ * Brand Search Index
+ *
+ * In-memory prefix and fuzzy search over the brand list, for typeaheads
+ * that should not call `/api/v2/brands` on every keystroke.
+ */
+
+import { ConfigurationError } from './errors';
+import { normalizeName, scoreName } from './taxonomy-match';
+import type { Brand } from './types';
+
+/** Options for building a {@link BrandIndex} */
+export interface BrandIndexOptions {
+  /** Extra names to match per brand UUID, e.g. `{ [airJordanUuid]: ['Jordan', 'AJ'] }` */
+  readonly aliases?: Readonly<Record<string, readonly string[]>>;
+  /**
+   * Popularity per brand UUID; higher ranks first among equally good
+   * matches. Brands without a value rank by their position in the brand
+   * list (the API's ordering).
+   */
+  readonly popularity?: Readonly<Record<string, number>>;
+}
+
+/** Options for {@link BrandIndex.search} */
+export interface BrandSearchOptions {
+  /**
+   * Maximum suggestions returned.
+   * @default 10
+   */
+  readonly limit?: number;
+  /**
+   * Also suggest brands whose name is within a few typos of the query.
+   * Only applies to queries of three or more characters.
+   * @default true
+   */
+  readonly fuzzy?: boolean;
+  /**
+   * Include inactive brands.
+   * @default false
+   */
+  readonly includeInactive?: boolean;
+}
+
+/** A brand suggested for a query */
+export interface BrandSuggestion {
+  readonly brand: Brand;
+  /** 1 for an exact match, 0.9 for a name prefix, 0.8 for a word prefix, below 0.7 for fuzzy matches */
+  readonly score: number;
+  /** The name or alias that matched */
+  readonly matched: string;
+}
+
+/** Serialized index, as returned by {@link BrandIndex.toJSON} */
+export interface BrandIndexSnapshot {
+  readonly version: 1;
+  readonly brands: readonly Brand[];
+  readonly aliases: Readonly<Record<string, readonly string[]>>;
+  readonly popularity: Readonly<Record<string, number>>;
+}
+
+interface IndexedBrand {
+  readonly brand: Brand;
+  /** Position in the brand list */
+  readonly ordinal: number;
+  readonly popularity: number;
+  /** Name then aliases, as given and normalized */
+  readonly terms: readonly { readonly text: string; readonly normalized: string }[];
+}
+
+const DEFAULT_LIMIT = 10;
+const PREFIX_SCORE = 0.9;
+const WORD_PREFIX_SCORE = 0.8;
+/** Fuzzy similarity is scaled by this so typos always rank below prefix matches */
+const FUZZY_WEIGHT = 0.7;
+/** Lowest similarity (0–1) suggested as a fuzzy match */
+const MIN_FUZZY_SIMILARITY = 0.7;
+const MIN_FUZZY_QUERY_LENGTH = 3;
+
+/**
+ * Local search index over brands.
+ *
+ * Build one with `taxonomy.createBrandIndex()`, or from a brand list you
+ * already have. The index is JSON-serializable, so it can be built once on
+ * the server and shipped to the browser.
+ *
+ * @example
+ * ```typescript
+ * const index = await legitmark.taxonomy.createBrandIndex({
+ *   aliases: { [airJordanUuid]: ['Jordan'] },
+ *   popularity: salesByBrand,
+ * });
+ *
+ * input.addEventListener('input', () => {
+ *   render(index.search(input.value, { limit: 8 }));
+ * });
+ *
+ * // Persist and restore
+ * const json = JSON.stringify(index);
+ * const restored = BrandIndex.fromJSON(JSON.parse(json));
+ * ```
+ */
+export class BrandIndex {
+  private readonly entries: readonly IndexedBrand[];
+  private readonly byUuid: ReadonlyMap<string, Brand>;
+
+  /**
+   * @param brands - Brands to index, in the API's order
+   * @param options - Aliases and popularity
+   */
+  constructor(brands: readonly Brand[], private readonly options: BrandIndexOptions = {}) {
+    this.entries = brands.map((brand, ordinal) => ({
+      brand,
+      ordinal,
+      popularity: options.popularity?.[brand.uuid] ?? 0,
+      terms: [brand.name, ...(options.aliases?.[brand.uuid] ?? [])]
+        .map(text => ({ text, normalized: normalizeName(text) }))
+        .filter(term => term.normalized.length > 0),
+    }));
+    this.byUuid = new Map(brands.map(brand => [brand.uuid, brand]));
+  }
+
+  /**
+   * Restore an index serialized with `JSON.stringify(index)`.
+   *
+   * @param snapshot - Parsed JSON
+   * @throws {ConfigurationError} If `snapshot` is not a brand index snapshot
+   */
+  static fromJSON(snapshot: BrandIndexSnapshot): BrandIndex {
+    if (snapshot?.version !== 1 || !Array.isArray(snapshot.brands)) {
+      throw new ConfigurationError('Not a brand index snapshot', [
+        'Pass the parsed output of JSON.stringify(brandIndex)',
+      ]);
+    }
+    return new BrandIndex(snapshot.brands, { aliases: snapshot.aliases, popularity: snapshot.popularity });
+  }
+
+  /** Number of indexed brands */
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Look up a brand by UUID.
+   *
+   * @param uuid - Brand UUID
+   * @returns The brand, or `undefined` if it is not indexed
+   */
+  get(uuid: string): Brand | undefined {
+    return this.byUuid.get(uuid);
+  }
+
+  /**
+   * Suggest brands for a (partial) name.
+   *
+   * Matching ignores case, accents and punctuation. Results are ranked by
+   * match quality, then popularity, then list position. An empty query
+   * returns the top brands by popularity.
+   *
+   * @param query - What the user has typed so far
+   * @param options - Limit, fuzzy matching and inactive brands
+   * @returns Suggestions, best first
+   */
+  search(query: string, options: BrandSearchOptions = {}): BrandSuggestion[] {
+    const limit = options.limit ?? DEFAULT_LIMIT;
+    const fuzzy = (options.fuzzy ?? true) && normalizeName(query).replace(/ /g, '').length >= MIN_FUZZY_QUERY_LENGTH;
+    const normalized = normalizeName(query);
+
+    const results: { entry: IndexedBrand; score: number; matched: string }[] = [];
+    for (const entry of this.entries) {
+      if (!entry.brand.active && !options.includeInactive) {
+        continue;
+      }
+      if (normalized.length === 0) {
+        results.push({ entry, score: 0, matched: entry.brand.name });
+        continue;
+      }
+
+      let best: { score: number; matched: string } | undefined;
+      for (const term of entry.terms) {
+        const score = scoreTerm(normalized, term.normalized, fuzzy);
+        if (score > 0 && (!best || score > best.score)) {
+          best = { score, matched: term.text };
+        }
+      }
+      if (best) {
+        results.push({ entry, ...best });
+      }
+    }
+
+    return results
+      .sort((a, b) => b.score - a.score
+        || b.entry.popularity - a.entry.popularity
+        || a.entry.ordinal - b.entry.ordinal)
+      .slice(0, limit)
+      .map(({ entry, score, matched }) => ({ brand: entry.brand, score, matched }));
+  }
+
+  /** Serialize the brands, aliases and popularity; used by `JSON.stringify` */
+  toJSON(): BrandIndexSnapshot {
+    return {
+      version: 1,
+      brands: this.entries.map(entry => entry.brand),
+      aliases: this.options.aliases ?? {},
+      popularity: this.options.popularity ?? {},
+    };
+  }
+}
+
+function scoreTerm(query: string, term: string, fuzzy: boolean): number {
+  if (term === query) {
+    return 1;
+  }
+  if (term.startsWith(query) || term.replace(/ /g, '').startsWith(query.replace(/ /g, ''))) {
+    return PREFIX_SCORE;
+  }
+  if (` ${term}`.includes(` ${query}`)) {
+    return WORD_PREFIX_SCORE;
+  }
+  if (!fuzzy) {
+    return 0;
+  }
+
+  // Compare against the whole name and against its start, so typos in a partial name still match
+  const similarity = Math.max(scoreName(query, term), scoreName(query, term.slice(0, query.length)));
+  return similarity >= MIN_FUZZY_SIMILARITY ? Math.round(similarity * FUZZY_WEIGHT * 1000) / 1000 : 0;
+}
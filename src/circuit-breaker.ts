@@ -0,0 +1,270 @@
+/**
+ * Circuit Breaker
+ *
+ * Stops sending requests while the API is failing, so callers fail fast
+ * with `CIRCUIT_OPEN_ERROR` instead of each waiting out a timeout. After a
+ * cool-down the circuit half-opens and lets probe requests through; their
+ * outcome decides whether it closes again.
+ */
+
+import { ConfigurationError, LegitmarkError } from './errors';
+import type { LegitmarkErrorCode } from './types';
+import type { RequestTarget } from './middleware';
+
+/**
+ * - `closed` — requests flow normally
+ * - `open` — requests fail fast with `CIRCUIT_OPEN_ERROR`
+ * - `half-open` — a limited number of probe requests are allowed through
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/** Which circuit a state change belongs to; asset covers media requests and uploads */
+export type CircuitName = 'platform' | 'asset';
+
+/** Emitted whenever a circuit changes state */
+export interface CircuitStateChangeEvent {
+  readonly circuit: CircuitName;
+  readonly from: CircuitState;
+  readonly to: CircuitState;
+  /** Failure rate in the window that opened the circuit (0–1) */
+  readonly failureRate?: number;
+  readonly timestamp: Date;
+}
+
+/**
+ * Circuit breaker configuration.
+ *
+ * @example
+ * ```typescript
+ * const legitmark = new Legitmark('leo_xxx', {
+ *   circuitBreaker: {
+ *     failureThreshold: 0.5,
+ *     resetTimeout: 30_000,
+ *     onStateChange: (e) => alerting.notify(`Legitmark ${e.circuit} circuit ${e.to}`),
+ *   },
+ * });
+ * ```
+ */
+export interface CircuitBreakerOptions {
+  /**
+   * Failure rate (0–1) within the window that opens the circuit.
+   * @default 0.5
+   */
+  readonly failureThreshold?: number;
+  /**
+   * Requests the window must contain before the failure rate is evaluated.
+   * @default 10
+   */
+  readonly minimumRequests?: number;
+  /**
+   * Rolling window in milliseconds over which the failure rate is measured.
+   * @default 60000
+   */
+  readonly window?: number;
+  /**
+   * Milliseconds the circuit stays open before half-opening.
+   * @default 30000
+   */
+  readonly resetTimeout?: number;
+  /**
+   * Probe requests allowed while half-open; all must succeed to close.
+   * @default 1
+   */
+  readonly halfOpenRequests?: number;
+  /** Called on every state change */
+  readonly onStateChange?: (event: CircuitStateChangeEvent) => void;
+}
+
+/** Reports an attempt's outcome; `undefined` means success */
+type Permit = (error?: LegitmarkError) => void;
+
+/** Error codes that indicate the API is unhealthy */
+const FAILURE_CODES: ReadonlySet<LegitmarkErrorCode> = new Set(['SERVER_ERROR', 'TIMEOUT_ERROR', 'NETWORK_ERROR']);
+
+/** Outcomes that say nothing about API health */
+const NEUTRAL_CODES: ReadonlySet<LegitmarkErrorCode> = new Set(['ABORT_ERROR', 'CIRCUIT_OPEN_ERROR']);
+
+const DEFAULTS = {
+  failureThreshold: 0.5,
+  minimumRequests: 10,
+  window: 60_000,
+  resetTimeout: 30_000,
+  halfOpenRequests: 1,
+} as const;
+
+type ResolvedOptions = Required<Omit<CircuitBreakerOptions, 'onStateChange'>>
+  & Pick<CircuitBreakerOptions, 'onStateChange'>;
+
+/**
+ * State for one circuit.
+ */
+class Circuit {
+  private state: CircuitState = 'closed';
+  private outcomes: Array<{ readonly at: number; readonly failed: boolean }> = [];
+  private openedAt = 0;
+  private probesInFlight = 0;
+  private probeSuccesses = 0;
+
+  constructor(private readonly name: CircuitName, private readonly options: ResolvedOptions) {}
+
+  getState(): CircuitState {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.options.resetTimeout) {
+      this.transition('half-open');
+    }
+    return this.state;
+  }
+
+  enter(): Permit {
+    const state = this.getState();
+
+    if (state === 'open' || (state === 'half-open' && this.probesInFlight >= this.options.halfOpenRequests)) {
+      const retryAfterMs = state === 'open'
+        ? Math.max(0, this.openedAt + this.options.resetTimeout - Date.now())
+        : undefined;
+      throw new LegitmarkError('CIRCUIT_OPEN_ERROR', `Circuit breaker is open for ${this.name} requests`, {
+        context: { retryAfterMs },
+        // Retrying before the circuit half-opens only burns attempts
+        isRetryable: false,
+        suggestions: [
+          'The Legitmark API has been failing; requests are paused to let it recover',
+          'Retry after the circuit half-opens',
+        ],
+      });
+    }
+
+    const probe = state === 'half-open';
+    if (probe) {
+      this.probesInFlight += 1;
+    }
+
+    let settled = false;
+    return (error?: LegitmarkError) => {
+      if (settled) return;
+      settled = true;
+      if (probe) {
+        this.probesInFlight -= 1;
+      }
+
+      if (error && NEUTRAL_CODES.has(error.code)) return;
+      this.record(probe, !!error && FAILURE_CODES.has(error.code));
+    };
+  }
+
+  private record(probe: boolean, failed: boolean): void {
+    if (probe && this.state === 'half-open') {
+      if (failed) {
+        this.open();
+      } else if (++this.probeSuccesses >= this.options.halfOpenRequests) {
+        this.transition('closed');
+      }
+      return;
+    }
+
+    if (this.state !== 'closed') return;
+
+    const now = Date.now();
+    this.outcomes = this.outcomes.filter(o => now - o.at < this.options.window);
+    this.outcomes.push({ at: now, failed });
+
+    if (this.outcomes.length < this.options.minimumRequests) return;
+
+    const failureRate = this.outcomes.filter(o => o.failed).length / this.outcomes.length;
+    if (failureRate >= this.options.failureThreshold) {
+      this.open(failureRate);
+    }
+  }
+
+  private open(failureRate?: number): void {
+    this.openedAt = Date.now();
+    this.transition('open', failureRate);
+  }
+
+  private transition(to: CircuitState, failureRate?: number): void {
+    const from = this.state;
+    this.state = to;
+    this.outcomes = [];
+    this.probeSuccesses = 0;
+
+    if (from !== to) {
+      this.options.onStateChange?.({ circuit: this.name, from, to, failureRate, timestamp: new Date() });
+    }
+  }
+}
+
+/**
+ * Client-side circuit breaker with separate platform and asset circuits.
+ *
+ * Pass {@link CircuitBreakerOptions} (or `true` for defaults) as
+ * {@link PartnerConfig.circuitBreaker}; clients derived with
+ * `withOptions()` share it. Pass a `CircuitBreaker` instance to share it
+ * with other clients or to read its state.
+ *
+ * @example
+ * ```typescript
+ * const breaker = new CircuitBreaker({ onStateChange: (e) => log.warn('circuit', e) });
+ * const legitmark = new Legitmark('leo_xxx', { circuitBreaker: breaker });
+ *
+ * if (breaker.getState() === 'open') {
+ *   // Skip this batch
+ * }
+ * ```
+ */
+export class CircuitBreaker {
+  private readonly platform: Circuit;
+  private readonly asset: Circuit;
+
+  /**
+   * @param options - Thresholds, timings and state-change listener
+   * @throws {ConfigurationError} If an option is out of range
+   */
+  constructor(options: CircuitBreakerOptions = {}) {
+    const resolved: ResolvedOptions = { ...DEFAULTS, ...stripUndefined(options) };
+    validateOptions(resolved);
+    this.platform = new Circuit('platform', resolved);
+    this.asset = new Circuit('asset', resolved);
+  }
+
+  /**
+   * Current state of a circuit.
+   *
+   * @param circuit - Which circuit to read
+   * @default 'platform'
+   */
+  getState(circuit: CircuitName = 'platform'): CircuitState {
+    return this.circuitFor(circuit).getState();
+  }
+
+  /**
+   * Admit one request attempt.
+   *
+   * @returns Callback reporting the attempt's outcome
+   * @throws {LegitmarkError} `CIRCUIT_OPEN_ERROR` while the circuit is open
+   * @internal
+   */
+  enter(target: RequestTarget): Permit {
+    return this.circuitFor(target === 'platform' ? 'platform' : 'asset').enter();
+  }
+
+  private circuitFor(circuit: CircuitName): Circuit {
+    return circuit === 'platform' ? this.platform : this.asset;
+  }
+}
+
+function stripUndefined<T extends object>(options: T): Partial<T> {
+  return Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined)) as Partial<T>;
+}
+
+function validateOptions(options: ResolvedOptions): void {
+  const problems: string[] = [];
+  if (!(options.failureThreshold > 0 && options.failureThreshold <= 1)) {
+    problems.push('failureThreshold must be between 0 (exclusive) and 1');
+  }
+  for (const key of ['minimumRequests', 'window', 'resetTimeout', 'halfOpenRequests'] as const) {
+    if (!(options[key] > 0 && Number.isFinite(options[key]))) {
+      problems.push(`${key} must be a positive number`);
+    }
+  }
+  if (problems.length > 0) {
+    throw new ConfigurationError(`Invalid circuitBreaker options: ${problems.join('; ')}`);
+  }
+}
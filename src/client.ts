@@ -1,20 +1,64 @@
-import axios, { AxiosInstance, AxiosError } from 'axios';
-
 import type {
   PartnerConfig,
   RequestOptions,
+  SignalOptions,
   ErrorResponse,
   LegitmarkErrorCode,
 } from './types';
 
-import { LegitmarkError, ConfigurationError } from './errors';
-import { Taxonomy, ServiceRequests, Images } from './resources';
+import { LegitmarkError, ConfigurationError, TransportError } from './errors';
+import { Taxonomy, ServiceRequests, Images, type PostOptions } from './resources';
+import {
+  createAxiosTransport,
+  createFetchTransport,
+  loadAxios,
+  type HttpMethod,
+  type Transport,
+  type TransportName,
+  type TransportRequest,
+  type TransportResponse,
+} from './transports';
+import { resolveRetryPolicy, getRetryDelay, parseRetryAfter } from './retry';
+import { createAbortError, sleep, throwIfAborted } from './abort';
+import { createLogger, resolveLogLevel, type Logger } from './logger';
+import { runMiddleware, type Middleware, type MiddlewareRequest, type RequestTarget } from './middleware';
+import {
+  createTelemetry,
+  type RequestOutcome,
+  type Telemetry,
+  type TelemetryAttributes,
+  type TelemetrySpan,
+} from './telemetry';
+import { RateLimiter } from './rate-limit';
+import { CircuitBreaker } from './circuit-breaker';
+import { TaxonomyCache } from './taxonomy-cache';
 
 export const API_KEY_PREFIX = 'leo_';
 const DEFAULT_TIMEOUT_MS = 30_000;
 const UPLOAD_TIMEOUT_MS = 60_000;
-const DEFAULT_API_URL = 'https://api.legitmark.com';
-const DEFAULT_ASSET_URL = 'https://media.legitmark.com';
+
+/**
+ * Named API environments and their platform/asset URLs.
+ * Select one with {@link PartnerConfig.environment}.
+ */
+export const LEGITMARK_ENVIRONMENTS = {
+  production: { baseUrl: 'https://api.legitmark.com', assetUrl: 'https://media.legitmark.com' },
+  staging: { baseUrl: 'https://api.staging.legitmark.com', assetUrl: 'https://media.staging.legitmark.com' },
+  local: { baseUrl: 'http://localhost:3000', assetUrl: 'http://localhost:3001' },
+} as const;
+
+export type LegitmarkEnvironment = keyof typeof LEGITMARK_ENVIRONMENTS;
+
+const DEFAULT_ENVIRONMENT: LegitmarkEnvironment = 'production';
+
+/**
+ * Whether a value names one of {@link LEGITMARK_ENVIRONMENTS}. Inherited
+ * keys such as `toString` are not environments.
+ * @internal
+ */
+export function isLegitmarkEnvironment(value: unknown): value is LegitmarkEnvironment {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(LEGITMARK_ENVIRONMENTS, value);
+}
 
 export const IMAGE_CONTENT_TYPES = {
   JPEG: 'image/jpeg',
@@ -26,39 +70,47 @@ export type ImageContentType = typeof IMAGE_CONTENT_TYPES[keyof typeof IMAGE_CON
 
 export const SDK_VERSION = '0.2.0';
 
-const LOGGER_PREFIX = 'LegitmarkPartnerSDK';
 const S3_UPLOAD_HEADERS = { CACHE_CONTROL: 'max-age=10', ACL: 'public-read' } as const;
-
-type LogLevel = 'debug' | 'info' | 'warn' | 'error';
-
-interface Logger {
-  debug: (message: string, data?: unknown) => void;
-  info: (message: string, data?: unknown) => void;
-  warn: (message: string, data?: unknown) => void;
-  error: (message: string, data?: unknown) => void;
+const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+const NON_IDEMPOTENT_METHODS: ReadonlySet<HttpMethod> = new Set(['POST', 'PATCH']);
+/** Statuses whose Retry-After header is honored */
+const RETRY_AFTER_STATUSES: ReadonlySet<number> = new Set([429, 503]);
+const NOT_MODIFIED = 304;
+
+interface SendOptions<T> {
+  readonly params?: Record<string, string>;
+  readonly body?: unknown;
+  readonly headers?: Record<string, string>;
+  readonly recover?: () => Promise<T | undefined>;
+  /** `null` sends the request without any signal, ignoring the client's default */
+  readonly signal?: AbortSignal | null;
 }
 
-function createLogger(enabled: boolean, prefix: string = LOGGER_PREFIX): Logger {
-  const log = (level: LogLevel, message: string, data?: unknown): void => {
-    if (!enabled && level === 'debug') return;
-    
-    const timestamp = new Date().toISOString();
-    const formattedMessage = `[${timestamp}] [${prefix}] [${level.toUpperCase()}] ${message}`;
-    
-    if (data !== undefined) {
-      console[level](formattedMessage, typeof data === 'object' ? JSON.stringify(data, null, 2) : data);
-    } else {
-      console[level](formattedMessage);
-    }
-  };
+interface SendContext<T> {
+  readonly target: RequestTarget;
+  /** Endpoint reported in error context */
+  readonly endpoint: string;
+  /** Request description for debug logs */
+  readonly label: string;
+  /**
+   * Checks whether a failed attempt took effect before retrying. A lookup
+   * failure is ignored, except `AMBIGUOUS_MATCH_ERROR`, which ends the retries.
+   */
+  readonly recover?: () => Promise<T | undefined>;
+}
 
-  return {
-    debug: (msg, data) => log('debug', msg, data),
-    info: (msg, data) => log('info', msg, data),
-    warn: (msg, data) => log('warn', msg, data),
-    error: (msg, data) => log('error', msg, data),
+type ResolvedConfig = PartnerConfig
+  & Required<Pick<PartnerConfig, 'timeout' | 'debug' | 'baseUrl' | 'assetUrl'>>
+  & {
+    readonly transport: Transport;
+    readonly signal?: AbortSignal;
+    /** Shared by every client derived through withOptions() */
+    readonly middleware: Middleware[];
+    readonly instrumentation: Telemetry;
+    readonly limiter?: RateLimiter;
+    readonly breaker?: CircuitBreaker;
+    readonly cache?: TaxonomyCache;
   };
-}
 
 /**
  * Legitmark Partner API Client.
@@ -84,9 +136,7 @@ function createLogger(enabled: boolean, prefix: string = LOGGER_PREFIX): Logger
  * ```
  */
 export class PartnerClient {
-  private readonly config: Required<PartnerConfig>;
-  private readonly platformClient: AxiosInstance;
-  private readonly assetClient: AxiosInstance;
+  private readonly config: ResolvedConfig;
   private readonly logger: Logger;
   private readonly requestOptions?: RequestOptions;
 
@@ -138,12 +188,30 @@ export class PartnerClient {
     this.requestOptions = requestOptions;
 
     this.config = {
-      apiKey: config.apiKey,
+      ...config,
       timeout: requestOptions?.timeout ?? config.timeout ?? DEFAULT_TIMEOUT_MS,
+      retry: requestOptions?.retry ?? config.retry,
+      signal: requestOptions?.signal,
       debug: config.debug ?? false,
+      transport: resolveTransport(config.transport),
+      // Derived clients receive the parent's resolved config and share its array
+      middleware: requestOptions ? config.middleware as Middleware[] : [...(config.middleware ?? [])],
+      instrumentation: requestOptions
+        ? (config as ResolvedConfig).instrumentation
+        : createTelemetry(config.telemetry),
+      limiter: requestOptions ? (config as ResolvedConfig).limiter : resolveRateLimiter(config.rateLimit),
+      breaker: requestOptions ? (config as ResolvedConfig).breaker : resolveCircuitBreaker(config.circuitBreaker),
+      cache: requestOptions ? (config as ResolvedConfig).cache : resolveTaxonomyCache(config.taxonomyCache),
+      ...resolveUrls(config),
     };
 
-    this.logger = createLogger(this.config.debug);
+    this.logger = createLogger({
+      logger: config.logger,
+      level: resolveLogLevel(config.logLevel, this.config.debug),
+      format: config.logFormat,
+      secrets: [this.config.apiKey],
+      redact: config.redact,
+    });
 
     if (!requestOptions && !this.config.apiKey.startsWith(API_KEY_PREFIX)) {
       this.logger.warn(
@@ -152,22 +220,16 @@ export class PartnerClient {
       );
     }
 
-    const baseUrl = process.env.LEGITMARK_BASE_URL || DEFAULT_API_URL;
-    const assetUrl = DEFAULT_ASSET_URL;
-
-    this.platformClient = this.createHttpClient(baseUrl);
-    this.assetClient = this.createHttpClient(assetUrl);
-
     if (!requestOptions) {
       this.logger.debug(`Initialized PartnerClient v${SDK_VERSION}`, {
-        baseUrl,
-        assetUrl,
+        baseUrl: this.config.baseUrl,
+        assetUrl: this.config.assetUrl,
         timeout: this.config.timeout,
       });
     }
 
     this.taxonomy = new Taxonomy(this);
-    this.sr = new ServiceRequests(this);
+    this.sr = new ServiceRequests(this, this.taxonomy);
     this.images = new Images(this);
   }
 
@@ -183,62 +245,123 @@ export class PartnerClient {
    * ```
    */
   withOptions(options: RequestOptions): PartnerClient {
-    return new PartnerClient(
-      {
-        apiKey: this.config.apiKey,
-        timeout: this.config.timeout,
-        debug: this.config.debug,
+    return new PartnerClient(this.config, { ...this.requestOptions, ...options });
+  }
+
+  /**
+   * Add middleware around every request, including asset requests and
+   * signed-URL uploads. Middleware runs in registration order and applies
+   * to this client and every client derived from it with `withOptions()`.
+   *
+   * @param middleware - Middleware to add
+   * @returns This client, for chaining
+   *
+   * @example
+   * ```typescript
+   * legitmark.use(async (request, next) => {
+   *   const response = await next({
+   *     ...request,
+   *     headers: { ...request.headers, 'X-Correlation-Id': correlationId },
+   *   });
+   *   metrics.increment('legitmark.response', { status: response.status });
+   *   return response;
+   * });
+   * ```
+   */
+  use(middleware: Middleware): this {
+    this.config.middleware.push(middleware);
+    return this;
+  }
+
+  /** @internal */
+  async _get<T>(endpoint: string, params?: Record<string, string>, options: SignalOptions = {}): Promise<T> {
+    return this.request<T>('platform', 'GET', endpoint, { params, signal: options.signal });
+  }
+
+  /**
+   * GET through the taxonomy cache when one is configured.
+   * @internal
+   */
+  async _getCached<T>(endpoint: string, params?: Record<string, string>, options: SignalOptions = {}): Promise<T> {
+    const cache = this.config.cache;
+    if (!cache) {
+      return this._get<T>(endpoint, params, options);
+    }
+
+    // Keyed by base URL too, so a cache shared across environments never mixes their catalogs
+    const path = params ? `${endpoint}?${new URLSearchParams(params)}` : endpoint;
+    const key = `${this.config.baseUrl}${path}`;
+    return cache.load<T>(
+      key,
+      async ({ etag, lastModified }) => {
+        const headers: Record<string, string> = {};
+        if (etag) headers['If-None-Match'] = etag;
+        if (lastModified) headers['If-Modified-Since'] = lastModified;
+
+        // Shared by every caller waiting on this key, and by clients created with
+        // withOptions(), so no single caller's or client's signal may cancel it
+        const response = await this.exchange<T>('platform', 'GET', endpoint, { params, headers, signal: null });
+        if (response.status === NOT_MODIFIED) {
+          this.logger.debug(`Taxonomy cache revalidated ${key}`);
+          return undefined;
+        }
+        return {
+          data: response.data,
+          storedAt: Date.now(),
+          etag: response.headers['etag'],
+          lastModified: response.headers['last-modified'],
+        };
       },
-      options
+      (message, meta) => this.logger.warn(message, meta),
+      options.signal ?? this.config.signal
     );
   }
 
   /** @internal */
-  async _get<T>(endpoint: string, params?: Record<string, string>): Promise<T> {
-    try {
-      const url = params ? `${endpoint}?${new URLSearchParams(params)}` : endpoint;
-      const response = await this.platformClient.get<T>(url);
-      return response.data;
-    } catch (error) {
-      this.handleError(error, endpoint);
-    }
+  async _post<T>(endpoint: string, data?: unknown, options: PostOptions<T> = {}): Promise<T> {
+    return this.write<T>('POST', endpoint, data, options);
   }
 
   /** @internal */
-  async _post<T>(endpoint: string, data?: unknown): Promise<T> {
-    try {
-      const response = await this.platformClient.post<T>(endpoint, data);
-      return response.data;
-    } catch (error) {
-      this.handleError(error, endpoint);
-    }
+  async _patch<T>(endpoint: string, data?: unknown, options: PostOptions<T> = {}): Promise<T> {
+    return this.write<T>('PATCH', endpoint, data, options);
   }
 
   /** @internal */
-  async _getAsset<T>(endpoint: string, params?: Record<string, string>): Promise<T> {
-    try {
-      const url = params ? `${endpoint}?${new URLSearchParams(params)}` : endpoint;
-      const response = await this.assetClient.get<T>(url);
-      return response.data;
-    } catch (error) {
-      this.handleError(error, endpoint);
-    }
+  async _getAsset<T>(endpoint: string, params?: Record<string, string>, options: SignalOptions = {}): Promise<T> {
+    return this.request<T>('asset', 'GET', endpoint, { params, signal: options.signal });
   }
 
   /** @internal */
-  async _uploadToUrl(url: string, data: Buffer, contentType: string): Promise<void> {
-    try {
-      await axios.put(url, data, {
+  async _uploadToUrl(url: string, data: Buffer, contentType: string, options: SignalOptions = {}): Promise<void> {
+    await this.send(
+      {
+        method: 'PUT',
+        url,
         headers: {
           'Content-Type': contentType,
           'Cache-Control': S3_UPLOAD_HEADERS.CACHE_CONTROL,
           'x-amz-acl': S3_UPLOAD_HEADERS.ACL,
         },
+        body: data,
         timeout: UPLOAD_TIMEOUT_MS,
-      });
-    } catch (error) {
-      this.handleError(error, url);
-    }
+        signal: options.signal ?? this.config.signal,
+      },
+      {
+        target: 'upload',
+        endpoint: url,
+        // Signed URLs carry credentials in the query string; keep them out of logs
+        label: url.split('?')[0],
+      }
+    );
+  }
+
+  /**
+   * Run `fn` inside a telemetry span that parents the requests it makes.
+   * @internal
+   */
+  _trace<T>(name: string, attributes: TelemetryAttributes, fn: () => Promise<T>): Promise<T> {
+    return this.config.instrumentation.span(name, attributes, fn);
   }
 
   /** @internal */
@@ -246,64 +369,219 @@ export class PartnerClient {
     this.logger[level](message, meta);
   }
 
-  private createHttpClient(baseURL: string): AxiosInstance {
-    const client = axios.create({
-      baseURL,
-      timeout: this.config.timeout,
+  /**
+   * Send a request body, with an idempotency key when one is given or retries need one.
+   */
+  private async write<T>(
+    method: 'POST' | 'PATCH',
+    endpoint: string,
+    data: unknown,
+    options: PostOptions<T>
+  ): Promise<T> {
+    let idempotencyKey = options.idempotencyKey;
+    if (!idempotencyKey && options.autoIdempotencyKey && resolveRetryPolicy(this.config.retry)) {
+      idempotencyKey = generateIdempotencyKey();
+    }
+
+    return this.request<T>('platform', method, endpoint, {
+      body: data,
+      headers: idempotencyKey ? { [IDEMPOTENCY_KEY_HEADER]: idempotencyKey } : undefined,
+      recover: options.recover,
+      signal: options.signal,
+    });
+  }
+
+  private async request<T>(
+    target: 'platform' | 'asset',
+    method: HttpMethod,
+    endpoint: string,
+    options: SendOptions<T> = {}
+  ): Promise<T> {
+    const response = await this.exchange<T>(target, method, endpoint, options);
+    return response.data;
+  }
+
+  private exchange<T>(
+    target: 'platform' | 'asset',
+    method: HttpMethod,
+    endpoint: string,
+    options: SendOptions<T> = {}
+  ): Promise<TransportResponse<T>> {
+    const { params, body } = options;
+    const path = params ? `${endpoint}?${new URLSearchParams(params)}` : endpoint;
+    const requestId = `req_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+    const baseUrl = target === 'asset' ? this.config.assetUrl : this.config.baseUrl;
+    const request: TransportRequest = {
+      method,
+      url: `${baseUrl}${path}`,
       headers: {
         'Content-Type': 'application/json',
         'Authorization': `Bearer ${this.config.apiKey}`,
         'X-SDK-Version': SDK_VERSION,
+        'X-Request-Id': requestId,
+        ...options.headers,
       },
-    });
+      body,
+      timeout: this.config.timeout,
+      signal: options.signal === null ? undefined : options.signal ?? this.config.signal,
+    };
 
-    client.interceptors.request.use((request) => {
-      const requestId = `req_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
-      request.headers['X-Request-Id'] = requestId;
-      this.logger.debug(`${request.method?.toUpperCase()} ${request.url} [${requestId}]`);
-      return request;
+    return this.send<T>(request, {
+      target,
+      endpoint,
+      label: `${path} [${requestId}]`,
+      recover: options.recover,
     });
+  }
 
-    client.interceptors.response.use(
-      (response) => {
-        const requestId = response.config.headers['X-Request-Id'] || '';
-        this.logger.debug(`${response.status} ${response.config.url} [${requestId}]`);
-        return response;
+  /**
+   * Send a request through the middleware and transport, retrying per the
+   * retry policy.
+   *
+   * @param request - Fully resolved request
+   * @param context - Target, error endpoint, log label and recovery lookup
+   */
+  private send<T>(request: TransportRequest, context: SendContext<T>): Promise<TransportResponse<T>> {
+    return this.config.instrumentation.request(
+      {
+        method: request.method,
+        target: context.target,
+        endpoint: context.endpoint,
+        requestId: request.headers['X-Request-Id'],
+        serverAddress: hostOf(request.url),
       },
-      (error: AxiosError) => {
-        const requestId = error.config?.headers?.['X-Request-Id'] || '';
-        this.logger.debug(`${error.response?.status ?? 'ERR'} ${error.config?.url} [${requestId}]`);
-        return Promise.reject(error);
-      }
+      (outcome, span) => this.sendWithRetry(request, context, outcome, span)
     );
+  }
+
+  private async sendWithRetry<T>(
+    request: TransportRequest,
+    context: SendContext<T>,
+    outcome: RequestOutcome,
+    span?: TelemetrySpan
+  ): Promise<TransportResponse<T>> {
+    const { endpoint, label, recover } = context;
+    const policy = isIdempotent(request) ? resolveRetryPolicy(this.config.retry) : undefined;
+    const attempts = policy?.attempts ?? 1;
+
+    for (let attempt = 1; ; attempt++) {
+      throwIfAborted(request.signal);
+      this.logger.debug(`${request.method} ${label}`);
+      outcome.attempts = attempt;
+
+      // An open circuit fails fast; the retry loop does not wait it out
+      const permit = this.config.breaker?.enter(context.target);
+      const release = await this.config.limiter?.acquire(context.target, request.signal).catch((error) => {
+        permit?.(error);
+        throw error;
+      });
+      try {
+        const response = await this.dispatch({ ...request, target: context.target, endpoint, attempt })
+          .finally(() => release?.());
+        permit?.();
+        this.config.limiter?.record(context.target);
+        this.logger.debug(`${response.status} ${label}`);
+        outcome.status = response.status;
+        outcome.serverRequestId = response.headers['x-request-id'];
+        return response as TransportResponse<T>;
+      } catch (error) {
+        const sdkError = this.toLegitmarkError(error, endpoint);
+        permit?.(sdkError);
+        this.config.limiter?.record(context.target, sdkError, resolveRetryPolicy(this.config.retry)?.maxDelay);
+        this.logger.debug(`${sdkError.context.statusCode ?? 'ERR'} ${label}`);
+        outcome.status = sdkError.context.statusCode;
+        outcome.serverRequestId = sdkError.context.requestId;
+
+        if (!policy || attempt >= attempts || !sdkError.isRetryable) {
+          throw sdkError;
+        }
+
+        const recovered = recover ? await this.tryRecover(recover, label) : undefined;
+        if (recovered !== undefined) {
+          return { status: 200, headers: {}, data: recovered };
+        }
+
+        const delay = getRetryDelay(policy, attempt, sdkError.context.retryAfterMs);
+        policy.onRetry?.(sdkError, attempt, delay);
+        span?.addEvent('retry', {
+          'legitmark.attempt': attempt + 1,
+          'legitmark.error_code': sdkError.code,
+          'legitmark.retry_delay_ms': delay,
+        });
+        this.logger.debug(`Retrying ${request.method} ${label} in ${delay}ms (attempt ${attempt + 1}/${attempts})`);
+        await sleep(delay, request.signal);
+      }
+    }
+  }
 
-    return client;
+  /**
+   * Run one attempt through the middleware chain. The transport sits at the
+   * end of the chain, and its failures are mapped before middleware sees them.
+   */
+  private dispatch(request: MiddlewareRequest): Promise<TransportResponse<unknown>> {
+    return runMiddleware(this.config.middleware, request, async (final) => {
+      try {
+        return await this.config.transport.request(final);
+      } catch (error) {
+        // Only conditional requests get a 304; it is an answer, not a failure
+        if (error instanceof TransportError && error.status === NOT_MODIFIED) {
+          return { status: NOT_MODIFIED, headers: error.headers, data: undefined };
+        }
+        throw this.toLegitmarkError(error, final.endpoint);
+      }
+    });
   }
 
-  private handleError(error: unknown, endpoint?: string): never {
+  private async tryRecover<T>(recover: () => Promise<T | undefined>, label: string): Promise<T | undefined> {
+    try {
+      const recovered = await recover();
+      if (recovered !== undefined) {
+        this.logger.info(`Recovered result of failed attempt instead of retrying ${label}`);
+      }
+      return recovered;
+    } catch (error) {
+      // Several candidates means the attempt may have taken effect; retrying could add another
+      if (error instanceof LegitmarkError && error.code === 'AMBIGUOUS_MATCH_ERROR') {
+        throw error;
+      }
+      this.logger.debug(`Recovery lookup failed for ${label}`, error instanceof Error ? error.message : error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Map any failure to a {@link LegitmarkError}.
+   */
+  private toLegitmarkError(error: unknown, endpoint?: string): LegitmarkError {
     if (error instanceof LegitmarkError) {
-      throw error;
+      return error;
     }
 
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError<ErrorResponse>;
-      const status = axiosError.response?.status;
-      const data = axiosError.response?.data;
-      const apiMessage = data?.error?.message ?? axiosError.message;
+    if (error instanceof TransportError && error.kind === 'aborted') {
+      return createAbortError(undefined, error);
+    }
+
+    if (error instanceof TransportError) {
+      const status = error.status;
+      const data = error.data as Partial<ErrorResponse> | undefined;
+      const apiMessage = data?.error?.message ?? error.message;
       
-      const requestId = axiosError.response?.headers?.['x-request-id'] 
-        ?? axiosError.response?.headers?.['x-amzn-requestid']
+      const requestId = error.headers['x-request-id']
+        ?? error.headers['x-amzn-requestid']
         ?? undefined;
+      const retryAfterMs = status && RETRY_AFTER_STATUSES.has(status)
+        ? parseRetryAfter(error.headers['retry-after'])
+        : undefined;
 
       let code: LegitmarkErrorCode;
       let isRetryable = false;
       let suggestions: string[] = [];
 
-      if (!status && axiosError.code === 'ECONNABORTED') {
+      if (error.kind === 'timeout') {
         code = 'TIMEOUT_ERROR';
         isRetryable = true;
         suggestions = ['Increase the timeout value', 'Check network latency'];
-      } else if (!status) {
+      } else if (error.kind === 'network' || !status) {
         code = 'NETWORK_ERROR';
         isRetryable = true;
         suggestions = ['Check your internet connection', 'Verify the API URL is correct'];
@@ -337,11 +615,12 @@ export class PartnerClient {
         code = 'UNKNOWN_ERROR';
       }
 
-      throw new LegitmarkError(code, apiMessage, {
+      return new LegitmarkError(code, apiMessage, {
         context: {
           statusCode: status,
           endpoint,
           requestId,
+          retryAfterMs,
           details: data?.error,
         },
         isRetryable,
@@ -350,7 +629,7 @@ export class PartnerClient {
       });
     }
 
-    throw new LegitmarkError('UNKNOWN_ERROR', String(error), {
+    return new LegitmarkError('UNKNOWN_ERROR', String(error), {
       cause: error,
     });
   }
@@ -374,22 +653,112 @@ export class Legitmark extends PartnerClient {
    * @param apiKey - Your Partner API key (format: leo_xxx)
    * @param options - Optional configuration overrides
    */
-  constructor(
-    apiKey: string,
-    options: {
-      timeout?: number;
-      debug?: boolean;
-    } = {}
-  ) {
-    super({
-      apiKey,
-      timeout: options.timeout,
-      debug: options.debug,
-    });
+  constructor(apiKey: string, options: Omit<PartnerConfig, 'apiKey'> = {}) {
+    super({ ...options, apiKey });
   }
 }
 
+function generateIdempotencyKey(): string {
+  // globalThis.crypto is unflagged from Node 19; fall back for Node 18
+  const uuid = globalThis.crypto?.randomUUID?.();
+  return uuid ?? `idem_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 12)}`;
+}
+
+function hostOf(url: string): string | undefined {
+  try {
+    return new URL(url).host;
+  } catch {
+    return undefined;
+  }
+}
+
+function isIdempotent(request: TransportRequest): boolean {
+  return !NON_IDEMPOTENT_METHODS.has(request.method) || IDEMPOTENCY_KEY_HEADER in request.headers;
+}
+
+function resolveUrls(config: PartnerConfig): { baseUrl: string; assetUrl: string } {
+  const environment = config.environment ?? DEFAULT_ENVIRONMENT;
+  if (!isLegitmarkEnvironment(environment)) {
+    throw new ConfigurationError(`Unknown environment '${environment}'`, [
+      `Use one of: ${Object.keys(LEGITMARK_ENVIRONMENTS).join(', ')}`,
+      'Or set baseUrl and assetUrl explicitly',
+    ]);
+  }
+
+  // The LEGITMARK_BASE_URL override only applies when no environment was chosen explicitly
+  const envBaseUrl = config.environment ? undefined : readEnv('LEGITMARK_BASE_URL');
+  const preset = LEGITMARK_ENVIRONMENTS[environment];
+
+  return {
+    baseUrl: stripTrailingSlash(config.baseUrl ?? envBaseUrl ?? preset.baseUrl),
+    assetUrl: stripTrailingSlash(config.assetUrl ?? preset.assetUrl),
+  };
+}
+
+function readEnv(name: string): string | undefined {
+  // `process` is absent on edge runtimes (Cloudflare Workers, Deno)
+  return typeof process !== 'undefined' ? process.env?.[name] || undefined : undefined;
+}
+
+function stripTrailingSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+function resolveRateLimiter(rateLimit: PartnerConfig['rateLimit']): RateLimiter | undefined {
+  if (!rateLimit) {
+    return undefined;
+  }
+  return rateLimit instanceof RateLimiter ? rateLimit : new RateLimiter(rateLimit);
+}
+
+function resolveCircuitBreaker(circuitBreaker: PartnerConfig['circuitBreaker']): CircuitBreaker | undefined {
+  if (!circuitBreaker) {
+    return undefined;
+  }
+  if (circuitBreaker instanceof CircuitBreaker) {
+    return circuitBreaker;
+  }
+  return new CircuitBreaker(circuitBreaker === true ? {} : circuitBreaker);
+}
+
+function resolveTaxonomyCache(taxonomyCache: PartnerConfig['taxonomyCache']): TaxonomyCache | undefined {
+  if (!taxonomyCache) {
+    return undefined;
+  }
+  if (taxonomyCache instanceof TaxonomyCache) {
+    return taxonomyCache;
+  }
+  return new TaxonomyCache(taxonomyCache === true ? {} : taxonomyCache);
+}
+
+function resolveTransport(transport: Transport | TransportName | undefined): Transport {
+  if (transport === undefined) {
+    return createDefaultTransport();
+  }
+  if (transport === 'axios') {
+    return createAxiosTransport();
+  }
+  if (transport === 'fetch') {
+    return createFetchTransport();
+  }
+  return transport;
+}
+
+/** axios when it is installed, otherwise fetch; decided on the first request */
+function createDefaultTransport(): Transport {
+  let selected: Promise<Transport> | undefined;
+  return {
+    async request<T>(request: TransportRequest): Promise<TransportResponse<T>> {
+      selected ??= loadAxios().then(
+        axios => createAxiosTransport(axios.create()),
+        () => createFetchTransport()
+      );
+      return (await selected).request<T>(request);
+    },
+  };
+}
+
 // Re-export for backward compatibility — tests import directly from this file
 export { LegitmarkError, ConfigurationError } from './errors';
-export { withRetry, type RetryOptions } from './retry';
+export { withRetry, type RetryOptions, type RetryPolicy } from './retry';
 export { createClientFromEnv, validateEnvironment } from './env';
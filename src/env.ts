@@ -1,5 +1,14 @@
-import { PartnerClient, API_KEY_PREFIX } from './client';
+import {
+  PartnerClient,
+  API_KEY_PREFIX,
+  LEGITMARK_ENVIRONMENTS,
+  isLegitmarkEnvironment,
+  type LegitmarkEnvironment,
+} from './client';
 import { ConfigurationError } from './errors';
+import type { LogLevel } from './logger';
+
+const LOG_LEVELS: readonly LogLevel[] = ['debug', 'info', 'warn', 'error', 'silent'];
 
 /**
  * Validate environment configuration for the SDK.
@@ -38,6 +47,18 @@ export function validateEnvironment(): {
     suggestions.push(`Note: API key doesn't start with '${API_KEY_PREFIX}' (expected for Partner keys)`);
   }
 
+  const environment = process.env.LEGITMARK_ENVIRONMENT;
+  if (environment && !isLegitmarkEnvironment(environment)) {
+    errors.push(`LEGITMARK_ENVIRONMENT '${environment}' is not a known environment`);
+    suggestions.push(`Set LEGITMARK_ENVIRONMENT to one of: ${Object.keys(LEGITMARK_ENVIRONMENTS).join(', ')}`);
+  }
+
+  const logLevel = process.env.LEGITMARK_LOG_LEVEL;
+  if (logLevel && !LOG_LEVELS.includes(logLevel as LogLevel)) {
+    errors.push(`LEGITMARK_LOG_LEVEL '${logLevel}' is not a known log level`);
+    suggestions.push(`Set LEGITMARK_LOG_LEVEL to one of: ${LOG_LEVELS.join(', ')}`);
+  }
+
   return {
     valid: errors.length === 0,
     errors,
@@ -51,6 +72,11 @@ export function validateEnvironment(): {
  * Reads configuration from the following environment variables:
  * - `LEGITMARK_API_KEY` - Partner API key (required)
  * - `LEGITMARK_DEBUG` - Enable debug logging (optional: 'true'/'false')
+ * - `LEGITMARK_ENVIRONMENT` - Named environment (optional: 'production', 'staging', 'local')
+ * - `LEGITMARK_BASE_URL` - Platform API URL override (optional)
+ * - `LEGITMARK_ASSET_URL` - Asset API URL override (optional)
+ * - `LEGITMARK_LOG_LEVEL` - Minimum log level (optional: 'debug', 'info', 'warn', 'error', 'silent')
+ * - `LEGITMARK_LOG_FORMAT` - Set to 'json' for JSON-lines console output (optional)
  *
  * @returns Configured PartnerClient instance
  * @throws {ConfigurationError} If required environment variables are missing
@@ -78,5 +104,10 @@ export function createClientFromEnv(): PartnerClient {
   return new PartnerClient({
     apiKey: process.env.LEGITMARK_API_KEY!,
     debug: process.env.LEGITMARK_DEBUG === 'true',
+    environment: (process.env.LEGITMARK_ENVIRONMENT || undefined) as LegitmarkEnvironment | undefined,
+    baseUrl: process.env.LEGITMARK_BASE_URL || undefined,
+    assetUrl: process.env.LEGITMARK_ASSET_URL || undefined,
+    logLevel: (process.env.LEGITMARK_LOG_LEVEL || undefined) as LogLevel | undefined,
+    logFormat: process.env.LEGITMARK_LOG_FORMAT === 'json' ? 'json' : undefined,
   });
 }
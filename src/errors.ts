@@ -1,4 +1,6 @@
 import type { LegitmarkErrorCode, LegitmarkErrorContext } from './types';
+import type { TransportErrorKind } from './transports/types';
+import type { TaxonomyCandidate, TaxonomyLevel } from './taxonomy-match';
 
 /**
  * Custom error class for Legitmark SDK errors.
@@ -74,3 +76,87 @@ export class ConfigurationError extends LegitmarkError {
     this.name = 'ConfigurationError';
   }
 }
+
+/**
+ * Thrown by `taxonomy.resolve()` when a name matches no catalog entry
+ * (`NOT_FOUND_ERROR`) or several equally well (`AMBIGUOUS_MATCH_ERROR`).
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await legitmark.taxonomy.resolve({ category: 'Footwear', type: 'Sneakers', brand: 'Jordan' });
+ * } catch (error) {
+ *   if (error instanceof TaxonomyMatchError) {
+ *     console.log(`${error.level} "${error.query}" could be:`, error.candidates.map(c => c.name));
+ *   }
+ * }
+ * ```
+ */
+export class TaxonomyMatchError extends LegitmarkError {
+  /** Which name failed to resolve */
+  readonly level: TaxonomyLevel;
+  /** The name as given */
+  readonly query: string;
+  /** Closest catalog entries, best first */
+  readonly candidates: readonly TaxonomyCandidate[];
+
+  constructor(
+    code: 'NOT_FOUND_ERROR' | 'AMBIGUOUS_MATCH_ERROR',
+    level: TaxonomyLevel,
+    query: string,
+    candidates: readonly TaxonomyCandidate[]
+  ) {
+    const listed = candidates.map(c => `"${c.name}" (${c.confidence})`).join(', ');
+    const message = code === 'AMBIGUOUS_MATCH_ERROR'
+      ? `Ambiguous ${level} "${query}": matches ${listed}`
+      : `No ${level} matches "${query}"${listed ? `; closest: ${listed}` : ''}`;
+
+    super(code, message, {
+      isRetryable: false,
+      suggestions: code === 'AMBIGUOUS_MATCH_ERROR'
+        ? [`Use the full ${level} name`, 'Or pass the UUID of one of the candidates']
+        : [`Check the ${level} name against taxonomy.getTree()`, 'Or lower minConfidence to accept weaker matches'],
+    });
+    this.name = 'TaxonomyMatchError';
+    this.level = level;
+    this.query = query;
+    this.candidates = candidates;
+  }
+}
+
+/**
+ * Low-level failure raised by a {@link Transport}.
+ *
+ * Transports throw this instead of library-specific errors so the client
+ * can translate every failure into a {@link LegitmarkError} the same way,
+ * regardless of which HTTP library sent the request.
+ */
+export class TransportError extends Error {
+  readonly kind: TransportErrorKind;
+  /** HTTP status code (only for `http` failures) */
+  readonly status?: number;
+  /** Response headers with lower-cased names */
+  readonly headers: Readonly<Record<string, string>>;
+  /** Parsed response body, if any */
+  readonly data?: unknown;
+  readonly cause?: unknown;
+
+  constructor(
+    kind: TransportErrorKind,
+    message: string,
+    options: {
+      status?: number;
+      headers?: Record<string, string>;
+      data?: unknown;
+      cause?: unknown;
+    } = {}
+  ) {
+    super(message);
+    this.name = 'TransportError';
+    this.kind = kind;
+    this.status = options.status;
+    this.headers = options.headers ?? {};
+    this.data = options.data;
+    this.cause = options.cause;
+  }
+}
@@ -80,27 +80,140 @@
  */
 
 // Client
-export { Legitmark, PartnerClient, SDK_VERSION, IMAGE_CONTENT_TYPES } from './client';
-export type { ImageContentType } from './client';
+export {
+  Legitmark,
+  PartnerClient,
+  SDK_VERSION,
+  IMAGE_CONTENT_TYPES,
+  LEGITMARK_ENVIRONMENTS,
+} from './client';
+export type { ImageContentType, LegitmarkEnvironment } from './client';
 
 // Errors
-export { LegitmarkError, ConfigurationError } from './errors';
+export { LegitmarkError, ConfigurationError, TransportError, TaxonomyMatchError } from './errors';
+
+// Transports
+export { createAxiosTransport, createFetchTransport } from './transports';
+export type {
+  Transport,
+  TransportName,
+  TransportRequest,
+  TransportResponse,
+  TransportErrorKind,
+  HttpMethod,
+  FetchTransportOptions,
+} from './transports';
+
+// Middleware
+export type { Middleware, MiddlewareRequest, MiddlewareNext, RequestTarget } from './middleware';
+
+// Rate limiting
+export { RateLimiter } from './rate-limit';
+export type { RateLimitOptions, RateLimitBudget } from './rate-limit';
+
+// Circuit breaker
+export { CircuitBreaker } from './circuit-breaker';
+export type {
+  CircuitBreakerOptions,
+  CircuitState,
+  CircuitName,
+  CircuitStateChangeEvent,
+} from './circuit-breaker';
+
+// Taxonomy matching
+export type { TaxonomyLevel, TaxonomyCandidate, TaxonomyMatch, MatchOptions } from './taxonomy-match';
+
+// Brand search
+export { BrandIndex } from './brand-index';
+export type { BrandIndexOptions, BrandSearchOptions, BrandSuggestion, BrandIndexSnapshot } from './brand-index';
+
+// Taxonomy export
+export { TAXONOMY_EXPORT_COLUMNS } from './taxonomy-export';
+export type {
+  TaxonomyExportColumn,
+  TaxonomyExportRow,
+  TaxonomyExportOptions,
+  TaxonomyExportRowsOptions,
+} from './taxonomy-export';
+
+// Taxonomy diffing
+export { diffTaxonomy } from './taxonomy-diff';
+export type {
+  CatalogSnapshot,
+  CatalogType,
+  TaxonomyDiff,
+  TaxonomyPatchOperation,
+  EntityChanges,
+  RenamedEntry,
+  ReorderedEntry,
+  MovedType,
+} from './taxonomy-diff';
+
+// Taxonomy cache
+export { TaxonomyCache, createMemoryStorage, createFileStorage } from './taxonomy-cache';
+export type {
+  TaxonomyCacheOptions,
+  TaxonomyCacheStorage,
+  TaxonomyCacheEntry,
+  TaxonomySnapshot,
+} from './taxonomy-cache';
+
+// Telemetry
+export { TELEMETRY_METRICS } from './telemetry';
+export type {
+  TelemetryOptions,
+  TelemetryTracer,
+  TelemetryMeter,
+  TelemetrySpan,
+  TelemetrySpanOptions,
+  TelemetryAttributes,
+} from './telemetry';
+
+// Logging
+export type { Logger, LogLevel, LogFormat } from './logger';
+
+// Pagination
+export { Paginator } from './pagination';
+export type { PaginatorOptions, Page, PageRequest, PageFetcher } from './pagination';
 
 // Retry
 export { withRetry } from './retry';
-export type { RetryOptions } from './retry';
+export type { RetryOptions, RetryPolicy } from './retry';
 
 // Environment
 export { createClientFromEnv, validateEnvironment } from './env';
 
 // Resources
+export { SR_VALIDATION_CODES } from './resources';
 export type {
   ResourceClient,
   ListCategoriesResponse,
   ListCategoriesOptions,
   ListBrandsResponse,
   ListBrandsOptions,
+  IterateCategoriesOptions,
+  ListAllBrandsOptions,
+  ResolveTaxonomyQuery,
+  ResolveTaxonomyOptions,
+  ResolvedTaxonomy,
   GetBrandsForTypeResponse,
+  ListModelsResponse,
+  ListModelsOptions,
+  TypeWithCategory,
+  BrandWithTypes,
+  GetBrandOptions,
+  CreateBrandIndexOptions,
+  WaitOptions,
+  WaitForStateOptions,
+  SRStateTarget,
+  CreateSROptions,
+  SubmitSROptions,
+  CancelSROptions,
+  UpdateSROptions,
+  SRListFilters,
+  ListSRsOptions,
+  ListAllSRsOptions,
+  ListSRsResponse,
 } from './resources';
 
 // Workflow
@@ -117,6 +230,21 @@ export type {
   WorkflowStepName,
 } from './workflow';
 
+// Service request states
+export {
+  SR_STATES,
+  SR_PRIMARY_STATES,
+  SR_SUPPLEMENT_STATES,
+  getStateInfo,
+  isKnownState,
+  isSameState,
+  isTerminal,
+  isActionable,
+  canTransition,
+  describeState,
+} from './sr-state';
+export type { SRStateInfo } from './sr-state';
+
 // Webhooks
 export {
   WEBHOOK_EVENT_TYPES,
@@ -142,6 +270,7 @@ export type {
 export type {
   PartnerConfig,
   RequestOptions,
+  SignalOptions,
   ApiResponse,
   PaginatedResponse,
   ValidationError,
@@ -155,6 +284,7 @@ export type {
   SRPrimaryState,
   SRSupplementState,
   SRState,
+  UnknownSRState,
   SRSummary,
   SRItem,
   TaxonomyRef,
@@ -166,12 +296,27 @@ export type {
   CreateSRResponse,
   GetSROptions,
   GetSRResponse,
+  SRWithIncludes,
+  SRIncludedFields,
+  SROutcome,
+  SRStage,
+  SRRisk,
+  SRRiskSignal,
+  SRAuthenticator,
+  SRUser,
+  SRTab,
+  SRWorkflow,
+  SRService,
+  SRPartner,
   UploadIntentResponse,
   ProgressData,
   SideWithMedia,
   MediaVersion,
   GetSRWithSidesResponse,
   SubmitSRResponse,
+  CancelSRResponse,
+  UpdateSRRequest,
+  UpdateSRResponse,
   WorkflowState,
   LegitmarkErrorCode,
   LegitmarkErrorContext,
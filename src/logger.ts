@@ -0,0 +1,175 @@
+/**
+ * Logging
+ *
+ * The SDK logs through a {@link Logger}: either one you inject via
+ * {@link PartnerConfig.logger} or the built-in console logger. Every
+ * message and payload is redacted before it reaches either.
+ */
+
+/** Log severities in increasing order, plus `silent` to disable logging */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+/** Output format of the built-in console logger */
+export type LogFormat = 'text' | 'json';
+
+/**
+ * Destination for SDK log records.
+ *
+ * Matches the `(message, meta)` call style of winston, bunyan-style
+ * wrappers and `console`. For pino, swap the arguments:
+ * `debug: (msg, meta) => pino.debug(meta ?? {}, msg)`.
+ */
+export interface Logger {
+  debug(message: string, meta?: unknown): void;
+  info(message: string, meta?: unknown): void;
+  warn(message: string, meta?: unknown): void;
+  error(message: string, meta?: unknown): void;
+}
+
+/** @internal */
+export interface LoggerOptions {
+  /** Injected logger; the console logger is used when omitted */
+  readonly logger?: Logger;
+  /** Minimum level to emit */
+  readonly level: LogLevel;
+  /** Console output format */
+  readonly format?: LogFormat;
+  /** Secret values to mask wherever they appear (e.g. the API key) */
+  readonly secrets?: readonly string[];
+  /** Additional field names whose values are masked */
+  readonly redact?: readonly string[];
+  /** Logger name shown in console output */
+  readonly name?: string;
+}
+
+const LOGGER_NAME = 'LegitmarkPartnerSDK';
+const REDACTED = '[REDACTED]';
+
+const LEVEL_RANK: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40, silent: Infinity };
+
+/** Field names masked by default, compared case-insensitively */
+const DEFAULT_REDACTED_FIELDS = ['authorization', 'apikey', 'api_key', 'x-api-key', 'idempotency-key'];
+
+const BEARER_PATTERN = /Bearer\s+[^\s"',]+/gi;
+/** Absolute URL with a query string */
+const URL_WITH_QUERY_PATTERN = /(https?:\/\/[^\s?"'#]+)\?[^\s"'#]*/gi;
+/** Query parameters that make a URL a bearer credential (S3/CloudFront presigning) */
+const SIGNED_URL_PARAM = /(?:^|&)(?:x-amz-[a-z-]+|signature|sig|token|key-pair-id|policy)=/i;
+
+/**
+ * Create the SDK's logger with level filtering and redaction applied.
+ *
+ * @internal
+ */
+export function createLogger(options: LoggerOptions): Logger {
+  const threshold = LEVEL_RANK[options.level];
+  const secrets = (options.secrets ?? []).filter(Boolean);
+  const fields = new Set([...DEFAULT_REDACTED_FIELDS, ...(options.redact ?? [])].map(f => f.toLowerCase()));
+  const sink = options.logger ?? createConsoleLogger(options.format ?? 'text', options.name ?? LOGGER_NAME);
+
+  const log = (level: Exclude<LogLevel, 'silent'>, message: string, meta?: unknown): void => {
+    if (LEVEL_RANK[level] < threshold) return;
+
+    const safeMessage = redactString(message, secrets);
+    if (meta === undefined) {
+      sink[level](safeMessage);
+    } else {
+      sink[level](safeMessage, redactValue(meta, secrets, fields, new WeakSet()));
+    }
+  };
+
+  return {
+    debug: (msg, meta) => log('debug', msg, meta),
+    info: (msg, meta) => log('info', msg, meta),
+    warn: (msg, meta) => log('warn', msg, meta),
+    error: (msg, meta) => log('error', msg, meta),
+  };
+}
+
+/**
+ * Resolve the effective minimum level from `logLevel` and the legacy
+ * `debug` flag.
+ *
+ * @internal
+ */
+export function resolveLogLevel(logLevel: LogLevel | undefined, debug: boolean): LogLevel {
+  return logLevel ?? (debug ? 'debug' : 'info');
+}
+
+function createConsoleLogger(format: LogFormat, name: string): Logger {
+  const write = (level: Exclude<LogLevel, 'silent'>, message: string, meta?: unknown): void => {
+    const timestamp = new Date().toISOString();
+
+    if (format === 'json') {
+      const fields = isPlainObject(meta) ? meta : meta === undefined ? {} : { data: meta };
+      // Envelope keys last, so metadata cannot change a record's level or message
+      console[level](JSON.stringify({ ...fields, time: timestamp, level, name, msg: message }));
+      return;
+    }
+
+    const formattedMessage = `[${timestamp}] [${name}] [${level.toUpperCase()}] ${message}`;
+    if (meta !== undefined) {
+      console[level](formattedMessage, typeof meta === 'object' ? JSON.stringify(meta, null, 2) : meta);
+    } else {
+      console[level](formattedMessage);
+    }
+  };
+
+  return {
+    debug: (msg, meta) => write('debug', msg, meta),
+    info: (msg, meta) => write('info', msg, meta),
+    warn: (msg, meta) => write('warn', msg, meta),
+    error: (msg, meta) => write('error', msg, meta),
+  };
+}
+
+function redactString(value: string, secrets: readonly string[]): string {
+  let result = value.replace(BEARER_PATTERN, `Bearer ${REDACTED}`);
+  for (const secret of secrets) {
+    result = result.split(secret).join(REDACTED);
+  }
+  return result.replace(URL_WITH_QUERY_PATTERN, (match: string, base: string) => {
+    const query = match.slice(base.length + 1);
+    return SIGNED_URL_PARAM.test(query) ? `${base}?${REDACTED}` : match;
+  });
+}
+
+function redactValue(
+  value: unknown,
+  secrets: readonly string[],
+  fields: ReadonlySet<string>,
+  seen: WeakSet<object>
+): unknown {
+  if (typeof value === 'string') {
+    return redactString(value, secrets);
+  }
+  if (value instanceof Error) {
+    return { name: value.name, message: redactString(value.message, secrets) };
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (seen.has(value)) {
+    return '[Circular]';
+  }
+  seen.add(value);
+
+  let result: unknown;
+  if (Array.isArray(value)) {
+    result = value.map(item => redactValue(item, secrets, fields, seen));
+  } else {
+    const copy: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      copy[key] = fields.has(key.toLowerCase()) ? REDACTED : redactValue(item, secrets, fields, seen);
+    }
+    result = copy;
+  }
+
+  // Only ancestors count as circular; shared references elsewhere are fine
+  seen.delete(value);
+  return result;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,75 @@
+/**
+ * Middleware
+ *
+ * Middleware wraps every transport call the client makes, in registration
+ * order, so it can rewrite the outgoing request, inspect or replace the
+ * response, and observe or translate errors. Register it with
+ * {@link PartnerClient.use} or {@link PartnerConfig.middleware}.
+ */
+
+import type { TransportRequest, TransportResponse } from './transports/types';
+
+/**
+ * Which API a request is addressed to.
+ *
+ * - `platform` — the Partner API (`baseUrl`)
+ * - `asset` — the media API (`assetUrl`)
+ * - `upload` — a signed storage URL returned by the media API
+ */
+export type RequestTarget = 'platform' | 'asset' | 'upload';
+
+/**
+ * A request as seen by middleware.
+ */
+export interface MiddlewareRequest extends TransportRequest {
+  readonly target: RequestTarget;
+  /** Endpoint path without base URL or query string (the full URL for uploads) */
+  readonly endpoint: string;
+  /** 1-based attempt number; greater than 1 when the client is retrying */
+  readonly attempt: number;
+}
+
+/** Passes a request to the next middleware, or to the transport after the last one */
+export type MiddlewareNext = (request: MiddlewareRequest) => Promise<TransportResponse<unknown>>;
+
+/**
+ * Request/response middleware.
+ *
+ * Call `next` with the (optionally modified) request to continue the chain.
+ * Errors arrive as {@link LegitmarkError}; anything a middleware throws is
+ * mapped to one as well, so a thrown {@link TransportError} gets the same
+ * error code a real transport failure would.
+ *
+ * @example
+ * ```typescript
+ * legitmark.use(async (request, next) => {
+ *   const started = Date.now();
+ *   try {
+ *     return await next({
+ *       ...request,
+ *       headers: { ...request.headers, 'X-Correlation-Id': getCorrelationId() },
+ *     });
+ *   } finally {
+ *     metrics.timing('legitmark.request', Date.now() - started, { target: request.target });
+ *   }
+ * });
+ * ```
+ */
+export type Middleware = (request: MiddlewareRequest, next: MiddlewareNext) => Promise<TransportResponse<unknown>>;
+
+/**
+ * Run `request` through `middleware` in order, ending at `terminal`.
+ *
+ * @internal
+ */
+export function runMiddleware(
+  middleware: readonly Middleware[],
+  request: MiddlewareRequest,
+  terminal: MiddlewareNext
+): Promise<TransportResponse<unknown>> {
+  const dispatch = async (index: number, current: MiddlewareRequest): Promise<TransportResponse<unknown>> => {
+    const handler = middleware[index];
+    return handler ? handler(current, next => dispatch(index + 1, next)) : terminal(current);
+  };
+  return dispatch(0, request);
+}
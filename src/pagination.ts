@@ -0,0 +1,169 @@
+/**
+ * Pagination
+ *
+ * Walks `page_number`/`page_size` listings so callers can iterate every
+ * item without writing their own page loop.
+ */
+
+import { ConfigurationError } from './errors';
+import { createAbortError } from './abort';
+import type { PaginatedResponse, SignalOptions } from './types';
+
+/** One page request issued by a {@link Paginator} */
+export interface PageRequest {
+  /** 1-based page number (`page_number`) */
+  readonly page: number;
+  /** Items per page (`page_size`) */
+  readonly pageSize: number;
+  /** Aborted when the caller's signal aborts or iteration stops early */
+  readonly signal: AbortSignal;
+}
+
+/** The parts of a listing response a {@link Paginator} reads */
+export interface Page<T> {
+  readonly data?: readonly T[];
+  readonly metadata?: PaginatedResponse<T>['metadata'];
+}
+
+/** Fetches one page of a listing */
+export type PageFetcher<T> = (request: PageRequest) => Promise<Page<T>>;
+
+/** Options for iterating a paginated listing */
+export interface PaginatorOptions extends SignalOptions {
+  /**
+   * Items per page.
+   * @default 100
+   */
+  readonly pageSize?: number;
+  /**
+   * Pages fetched in parallel once the first page reports `total_pages`.
+   * Items are still yielded in page order.
+   * @default 1
+   */
+  readonly concurrency?: number;
+  /**
+   * First page to fetch.
+   * @default 1
+   */
+  readonly startPage?: number;
+  /** Stop after this many pages */
+  readonly maxPages?: number;
+}
+
+const DEFAULT_PAGE_SIZE = 100;
+
+/**
+ * Async iterator over every item of a paginated listing.
+ *
+ * Pages are requested lazily: breaking out of a `for await` loop stops
+ * fetching and aborts any pages prefetched under `concurrency`. Without
+ * `metadata` in the response, iteration ends at the first short page.
+ *
+ * @example
+ * ```typescript
+ * for await (const brand of legitmark.taxonomy.listAllBrands({ concurrency: 4 })) {
+ *   await db.upsertBrand(brand);
+ * }
+ *
+ * // Or collect everything
+ * const categories = await legitmark.taxonomy.iterateCategories().toArray();
+ * ```
+ */
+export class Paginator<T> implements AsyncIterable<T> {
+  private readonly pageSize: number;
+  private readonly concurrency: number;
+  private readonly startPage: number;
+  private readonly maxPages: number;
+  private readonly signal?: AbortSignal;
+
+  /**
+   * @param fetchPage - Fetches one page
+   * @param options - Page size, concurrency and cancellation
+   * @throws {ConfigurationError} If an option is not a positive integer
+   */
+  constructor(private readonly fetchPage: PageFetcher<T>, options: PaginatorOptions = {}) {
+    this.pageSize = positiveInteger('pageSize', options.pageSize ?? DEFAULT_PAGE_SIZE);
+    this.concurrency = positiveInteger('concurrency', options.concurrency ?? 1);
+    this.startPage = positiveInteger('startPage', options.startPage ?? 1);
+    this.maxPages = options.maxPages === undefined ? Infinity : positiveInteger('maxPages', options.maxPages);
+    this.signal = options.signal;
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<T, void, undefined> {
+    for await (const page of this.pages()) {
+      yield* page.data ?? [];
+    }
+  }
+
+  /**
+   * Iterate whole pages, including their `metadata`.
+   *
+   * @throws {LegitmarkError} `ABORT_ERROR` if the signal aborts, or the error of a failed page
+   */
+  async *pages(): AsyncGenerator<Page<T>, void, undefined> {
+    if (this.signal?.aborted) {
+      throw createAbortError(this.signal);
+    }
+
+    const controller = new AbortController();
+    const onAbort = (): void => controller.abort(this.signal?.reason);
+    this.signal?.addEventListener('abort', onAbort, { once: true });
+
+    const pending = new Map<number, Promise<Page<T>>>();
+    const lastPage = this.startPage + this.maxPages - 1;
+    let totalPages = Infinity;
+    let next = this.startPage;
+
+    try {
+      for (let page = this.startPage; page <= Math.min(lastPage, totalPages); page++) {
+        // Prefetch ahead only once the page count is known
+        const ahead = totalPages === Infinity ? page : Math.min(lastPage, totalPages, page + this.concurrency - 1);
+        for (; next <= ahead; next++) {
+          const request = this.fetchPage({ page: next, pageSize: this.pageSize, signal: controller.signal });
+          // Pages abandoned on early exit reject with ABORT_ERROR; nobody awaits them
+          request.catch(() => undefined);
+          pending.set(next, request);
+        }
+
+        const response = await pending.get(page)!;
+        pending.delete(page);
+
+        const count = response.data?.length ?? 0;
+        if (response.metadata) {
+          totalPages = response.metadata.total_pages;
+        }
+
+        yield response;
+
+        if (count === 0 || (!response.metadata && count < this.pageSize)) {
+          return;
+        }
+      }
+    } finally {
+      this.signal?.removeEventListener('abort', onAbort);
+      if (pending.size > 0) {
+        controller.abort();
+      }
+    }
+  }
+
+  /**
+   * Collect every item into an array.
+   *
+   * @throws {LegitmarkError} `ABORT_ERROR` if the signal aborts, or the error of a failed page
+   */
+  async toArray(): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of this) {
+      items.push(item);
+    }
+    return items;
+  }
+}
+
+function positiveInteger(name: string, value: number): number {
+  if (!(Number.isInteger(value) && value > 0)) {
+    throw new ConfigurationError(`Paginator ${name} must be a positive integer`);
+  }
+  return value;
+}
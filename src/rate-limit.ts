@@ -0,0 +1,294 @@
+/**
+ * Client-side Rate Limiting
+ *
+ * Token-bucket and concurrency limits applied before each request attempt.
+ * Platform and asset traffic draw from separate budgets, and both back off
+ * when the API answers with `RATE_LIMIT_ERROR`.
+ */
+
+import { ConfigurationError, LegitmarkError } from './errors';
+import { createAbortError } from './abort';
+import { DEFAULT_POLICY_MAX_DELAY_MS } from './retry';
+import type { RequestTarget } from './middleware';
+
+/** Limits for one kind of traffic. Omitted limits are not enforced. */
+export interface RateLimitBudget {
+  /** Sustained request rate (token refill rate) */
+  readonly requestsPerSecond?: number;
+  /**
+   * Requests that may start back-to-back before the rate applies (bucket
+   * size). Must be at least 1.
+   * @default requestsPerSecond, at least 1
+   */
+  readonly burst?: number;
+  /** Maximum requests in flight at once */
+  readonly maxConcurrent?: number;
+}
+
+/**
+ * Rate limit configuration.
+ *
+ * @example
+ * ```typescript
+ * const legitmark = new Legitmark('leo_xxx', {
+ *   rateLimit: {
+ *     platform: { requestsPerSecond: 10, maxConcurrent: 4 },
+ *     asset: { maxConcurrent: 2 },
+ *   },
+ * });
+ * ```
+ */
+export interface RateLimitOptions {
+  /** Budget for Partner API requests */
+  readonly platform?: RateLimitBudget;
+  /** Budget for media API requests and signed-URL uploads */
+  readonly asset?: RateLimitBudget;
+  /**
+   * On `RATE_LIMIT_ERROR`, pause the budget for the server's `Retry-After`
+   * (1 second if absent, capped at the retry policy's `maxDelay`) and halve
+   * its limits (down to 1/16 of the rate and one concurrent request), then
+   * restore them gradually as requests succeed.
+   * @default true
+   */
+  readonly adaptive?: boolean;
+}
+
+/** Called by the client once an attempt holding a slot has finished */
+type Release = () => void;
+
+const DEFAULT_RATE_LIMIT_PAUSE_MS = 1_000;
+/** Fraction of the configured rate restored per successful request */
+const RECOVERY_STEP = 0.1;
+/** Lowest fraction of the configured rate that repeated rate limiting backs off to */
+const MIN_RATE_FRACTION = 1 / 16;
+
+interface Waiter {
+  readonly resolve: (release: Release) => void;
+  readonly reject: (error: LegitmarkError) => void;
+  readonly signal?: AbortSignal;
+  readonly onAbort: () => void;
+}
+
+/**
+ * One token bucket plus concurrency limit.
+ */
+class Budget {
+  private readonly baseRate?: number;
+  private readonly baseConcurrency?: number;
+  private readonly capacity: number;
+  private rate?: number;
+  private concurrency?: number;
+  private tokens: number;
+  private refilledAt = Date.now();
+  private inFlight = 0;
+  private pausedUntil = 0;
+  private timer?: ReturnType<typeof setTimeout>;
+  private readonly queue: Waiter[] = [];
+
+  constructor(limits: RateLimitBudget) {
+    this.baseRate = limits.requestsPerSecond;
+    this.baseConcurrency = limits.maxConcurrent;
+    this.rate = this.baseRate;
+    this.concurrency = this.baseConcurrency;
+    this.capacity = limits.burst ?? Math.max(1, Math.floor(this.baseRate ?? 1));
+    this.tokens = this.capacity;
+  }
+
+  acquire(signal?: AbortSignal): Promise<Release> {
+    if (signal?.aborted) {
+      return Promise.reject(createAbortError(signal));
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        resolve,
+        reject,
+        signal,
+        onAbort: () => {
+          const index = this.queue.indexOf(waiter);
+          if (index !== -1) {
+            this.queue.splice(index, 1);
+            reject(createAbortError(signal));
+          }
+        },
+      };
+      signal?.addEventListener('abort', waiter.onAbort, { once: true });
+      this.queue.push(waiter);
+      this.pump();
+    });
+  }
+
+  rateLimited(retryAfterMs: number | undefined, maxPauseMs: number): void {
+    const pauseMs = Math.min(retryAfterMs ?? DEFAULT_RATE_LIMIT_PAUSE_MS, maxPauseMs);
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + pauseMs);
+    if (this.rate !== undefined) {
+      this.refill();
+      this.rate = Math.max((this.baseRate ?? this.rate) * MIN_RATE_FRACTION, this.rate / 2);
+      this.tokens = 0;
+    }
+    if (this.concurrency !== undefined) {
+      this.concurrency = Math.max(1, Math.floor(this.concurrency / 2));
+    }
+  }
+
+  succeeded(): void {
+    if (this.rate !== undefined && this.baseRate !== undefined && this.rate < this.baseRate) {
+      this.refill();
+      this.rate = Math.min(this.baseRate, this.rate + this.baseRate * RECOVERY_STEP);
+    }
+    if (this.concurrency !== undefined && this.baseConcurrency !== undefined && this.concurrency < this.baseConcurrency) {
+      this.concurrency += 1;
+    }
+  }
+
+  /** Admit queued requests while limits allow, then wake up when the next one can go */
+  private pump(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    while (this.queue.length > 0) {
+      if (this.concurrency !== undefined && this.inFlight >= this.concurrency) {
+        // release() pumps again
+        return;
+      }
+
+      const waitMs = this.waitTime();
+      if (waitMs > 0) {
+        this.timer = setTimeout(() => this.pump(), waitMs);
+        // A paused budget must not hold a shutting-down process open
+        this.timer.unref?.();
+        return;
+      }
+
+      const waiter = this.queue.shift()!;
+      waiter.signal?.removeEventListener('abort', waiter.onAbort);
+      if (this.rate !== undefined) {
+        this.tokens -= 1;
+      }
+      this.inFlight += 1;
+      waiter.resolve(this.createRelease());
+    }
+  }
+
+  /** Milliseconds until the next request may start, ignoring concurrency */
+  private waitTime(): number {
+    const now = Date.now();
+    if (now < this.pausedUntil) {
+      return this.pausedUntil - now;
+    }
+    if (this.rate === undefined) {
+      return 0;
+    }
+    this.refill();
+    return this.tokens >= 1 ? 0 : Math.ceil(((1 - this.tokens) / this.rate) * 1000);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    if (this.rate !== undefined) {
+      this.tokens = Math.min(this.capacity, this.tokens + ((now - this.refilledAt) / 1000) * this.rate);
+    }
+    this.refilledAt = now;
+  }
+
+  private createRelease(): Release {
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.inFlight -= 1;
+      this.pump();
+    };
+  }
+}
+
+/**
+ * Client-side rate limiter.
+ *
+ * Pass {@link RateLimitOptions} as {@link PartnerConfig.rateLimit} to give
+ * a client (and every client derived from it with `withOptions()`) its own
+ * limiter, or pass a `RateLimiter` instance to share one budget across
+ * separately constructed clients.
+ *
+ * @example
+ * ```typescript
+ * const limiter = new RateLimiter({ platform: { requestsPerSecond: 5 } });
+ *
+ * const a = new Legitmark(keyA, { rateLimit: limiter });
+ * const b = new Legitmark(keyB, { rateLimit: limiter });
+ * ```
+ */
+export class RateLimiter {
+  private readonly platform?: Budget;
+  private readonly asset?: Budget;
+  private readonly adaptive: boolean;
+
+  /**
+   * @param options - Budgets per traffic type
+   * @throws {ConfigurationError} If a limit is not a positive number
+   */
+  constructor(options: RateLimitOptions = {}) {
+    this.platform = createBudget('platform', options.platform);
+    this.asset = createBudget('asset', options.asset);
+    this.adaptive = options.adaptive ?? true;
+  }
+
+  /**
+   * Wait for a slot for one request attempt.
+   *
+   * @returns Function to call once the attempt has finished
+   * @throws {LegitmarkError} `ABORT_ERROR` if the signal aborts while waiting
+   * @internal
+   */
+  async acquire(target: RequestTarget, signal?: AbortSignal): Promise<Release> {
+    const budget = this.budgetFor(target);
+    return budget ? budget.acquire(signal) : noop;
+  }
+
+  /**
+   * Feed an attempt's outcome back into the budget.
+   *
+   * @param maxPauseMs - Longest `Retry-After` pause honored (the retry policy's `maxDelay`)
+   * @internal
+   */
+  record(target: RequestTarget, error?: LegitmarkError, maxPauseMs = DEFAULT_POLICY_MAX_DELAY_MS): void {
+    const budget = this.budgetFor(target);
+    if (!budget || !this.adaptive) return;
+
+    if (!error) {
+      budget.succeeded();
+    } else if (error.code === 'RATE_LIMIT_ERROR') {
+      budget.rateLimited(error.context.retryAfterMs, maxPauseMs);
+    }
+  }
+
+  private budgetFor(target: RequestTarget): Budget | undefined {
+    return target === 'platform' ? this.platform : this.asset;
+  }
+}
+
+function noop(): void {
+  // No budget configured for this traffic
+}
+
+function createBudget(name: string, limits: RateLimitBudget | undefined): Budget | undefined {
+  if (!limits || (limits.requestsPerSecond === undefined && limits.maxConcurrent === undefined)) {
+    return undefined;
+  }
+
+  for (const [key, value] of Object.entries(limits)) {
+    if (value !== undefined && !(typeof value === 'number' && value > 0 && Number.isFinite(value))) {
+      throw new ConfigurationError(`rateLimit.${name}.${key} must be a positive number`, [
+        'Omit the limit to leave it unenforced',
+      ]);
+    }
+  }
+  // A bucket smaller than one token never admits a request
+  if (limits.burst !== undefined && limits.burst < 1) {
+    throw new ConfigurationError(`rateLimit.${name}.burst must be at least 1`);
+  }
+
+  return new Budget(limits);
+}
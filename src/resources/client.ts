@@ -1,5 +1,23 @@
+import type { SignalOptions } from '../types';
+
+/** Options for POST and PATCH requests that must not be applied twice */
+export interface PostOptions<T = unknown> extends SignalOptions {
+  /** Sent as the `Idempotency-Key` header so the API can de-duplicate repeated requests */
+  readonly idempotencyKey?: string;
+  /** Generate an idempotency key when none is given and automatic retries are enabled */
+  readonly autoIdempotencyKey?: boolean;
+  /**
+   * Look up the outcome of a failed attempt before it is retried.
+   * Resolving with a value ends the call with that value instead of retrying.
+   */
+  readonly recover?: () => Promise<T | undefined>;
+}
+
 /** Internal client interface for resource classes */
 export interface ResourceClient {
-  _get<T>(endpoint: string, params?: Record<string, string>): Promise<T>;
-  _post<T>(endpoint: string, data?: unknown): Promise<T>;
+  _get<T>(endpoint: string, params?: Record<string, string>, options?: SignalOptions): Promise<T>;
+  /** Like `_get`, served from the taxonomy cache when one is configured */
+  _getCached<T>(endpoint: string, params?: Record<string, string>, options?: SignalOptions): Promise<T>;
+  _post<T>(endpoint: string, data?: unknown, options?: PostOptions<T>): Promise<T>;
+  _patch<T>(endpoint: string, data?: unknown, options?: PostOptions<T>): Promise<T>;
 }
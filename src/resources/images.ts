@@ -9,7 +9,7 @@
  * ```
  */
 
-import type { UploadIntentResponse } from '../types';
+import type { SignalOptions, UploadIntentResponse } from '../types';
 import type { ResourceClient } from './client';
 import { IMAGE_CONTENT_TYPES, type ImageContentType } from '../client';
 
@@ -18,13 +18,13 @@ const DEFAULT_EXTENSION = 'jpg';
 
 /** Extended client interface with asset upload capability */
 export interface ImageResourceClient extends ResourceClient {
-  _getAsset<T>(endpoint: string, params?: Record<string, string>): Promise<T>;
-  _uploadToUrl(url: string, data: Buffer, contentType: string): Promise<void>;
+  _getAsset<T>(endpoint: string, params?: Record<string, string>, options?: SignalOptions): Promise<T>;
+  _uploadToUrl(url: string, data: Buffer, contentType: string, options?: SignalOptions): Promise<void>;
   _log(level: 'info' | 'debug', message: string, meta?: unknown): void;
 }
 
 /** Options for image upload */
-export interface UploadOptions {
+export interface UploadOptions extends SignalOptions {
   /** Image content type (default: image/jpeg) */
   contentType?: ImageContentType;
 }
@@ -41,16 +41,19 @@ export class Images {
    * @param srUuid - Service Request UUID
    * @param sideUuid - Side UUID
    * @param extension - File extension (default: jpg)
+   * @param options - Cancellation options
    * @returns Signed upload URL
    */
   async getIntent(
     srUuid: string,
     sideUuid: string,
-    extension: string = DEFAULT_EXTENSION
+    extension: string = DEFAULT_EXTENSION,
+    options: SignalOptions = {}
   ): Promise<UploadIntentResponse> {
     return this.client._getAsset<UploadIntentResponse>(
       '/intent',
-      { sr: srUuid, side: `${sideUuid}.${extension}` }
+      { sr: srUuid, side: `${sideUuid}.${extension}` },
+      { signal: options.signal }
     );
   }
 
@@ -67,7 +70,7 @@ export class Images {
     options: UploadOptions = {}
   ): Promise<void> {
     const contentType = options.contentType ?? IMAGE_CONTENT_TYPES.JPEG;
-    await this.client._uploadToUrl(url, image, contentType);
+    await this.client._uploadToUrl(url, image, contentType, { signal: options.signal });
     this.client._log('debug', `Uploaded image (${image.length} bytes)`);
   }
 
@@ -103,7 +106,7 @@ export class Images {
       imageBuffer = image;
     }
 
-    const intent = await this.getIntent(srUuid, sideUuid);
+    const intent = await this.getIntent(srUuid, sideUuid, DEFAULT_EXTENSION, { signal: options.signal });
     await this.upload(intent.url, imageBuffer, options);
     
     this.client._log('info', `Uploaded image for side ${sideUuid}`);
@@ -1,4 +1,4 @@
-export { type ResourceClient } from './client';
+export { type ResourceClient, type PostOptions } from './client';
 
 export { 
   Taxonomy, 
@@ -6,7 +6,32 @@ export {
   type ListCategoriesOptions,
   type ListBrandsResponse,
   type ListBrandsOptions,
+  type IterateCategoriesOptions,
+  type ListAllBrandsOptions,
+  type ResolveTaxonomyQuery,
+  type ResolveTaxonomyOptions,
+  type ResolvedTaxonomy,
   type GetBrandsForTypeResponse,
+  type ListModelsResponse,
+  type ListModelsOptions,
+  type TypeWithCategory,
+  type BrandWithTypes,
+  type GetBrandOptions,
+  type CreateBrandIndexOptions,
 } from './taxonomy';
-export { ServiceRequests, type WaitOptions } from './sr';
+export {
+  ServiceRequests,
+  SR_VALIDATION_CODES,
+  type WaitOptions,
+  type WaitForStateOptions,
+  type SRStateTarget,
+  type CreateSROptions,
+  type SubmitSROptions,
+  type CancelSROptions,
+  type UpdateSROptions,
+  type SRListFilters,
+  type ListSRsOptions,
+  type ListAllSRsOptions,
+  type ListSRsResponse,
+} from './sr';
 export { Images, type ImageResourceClient, type UploadOptions } from './images';
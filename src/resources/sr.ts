@@ -11,16 +11,29 @@
  */
 
 import type {
+  CancelSRResponse,
   CreateSRRequest,
   CreateSRResponse,
   GetSROptions,
   GetSRResponse,
   GetSRWithSidesResponse,
   ProgressData,
+  ServiceRequest,
+  SignalOptions,
+  SRPrimaryState,
+  SRState,
+  SRSupplementState,
   SubmitSRResponse,
+  UpdateSRRequest,
+  UpdateSRResponse,
+  ValidationError,
 } from '../types';
 import type { ResourceClient } from './client';
-import { LegitmarkError } from '../errors';
+import { Taxonomy } from './taxonomy';
+import { ConfigurationError, LegitmarkError } from '../errors';
+import { sleep } from '../abort';
+import { Paginator, type PaginatorOptions } from '../pagination';
+import { SR_PRIMARY_STATES, SR_STATES, isTerminal } from '../sr-state';
 
 /** Default polling interval for waitForRequirements (2 seconds) */
 const DEFAULT_POLL_INTERVAL_MS = 2000;
@@ -28,8 +41,33 @@ const DEFAULT_POLL_INTERVAL_MS = 2000;
 /** Default max wait time for waitForRequirements (5 minutes) */
 const DEFAULT_MAX_WAIT_MS = 300_000;
 
+/**
+ * Codes of the {@link ValidationError}s returned by `sr.validateRequest()`.
+ */
+export const SR_VALIDATION_CODES = {
+  MISSING_FIELD: 'validation/missing-field',
+  UNKNOWN_CATEGORY: 'validation/unknown-category',
+  INACTIVE_CATEGORY: 'validation/inactive-category',
+  UNKNOWN_TYPE: 'validation/unknown-type',
+  TYPE_NOT_IN_CATEGORY: 'validation/type-not-in-category',
+  INACTIVE_TYPE: 'validation/inactive-type',
+  BRAND_NOT_FOR_TYPE: 'validation/brand-not-for-type',
+  INACTIVE_BRAND: 'validation/inactive-brand',
+  MODEL_NOT_FOR_BRAND: 'validation/model-not-for-brand',
+  INACTIVE_MODEL: 'validation/inactive-model',
+} as const;
+
+/** Initial polling interval for waitForState (2 seconds) */
+const DEFAULT_STATE_POLL_INTERVAL_MS = 2000;
+
+/** Longest interval waitForState backs off to (1 minute) */
+const DEFAULT_MAX_STATE_POLL_INTERVAL_MS = 60_000;
+
+/** Default max wait time for waitForState (1 hour) */
+const DEFAULT_STATE_MAX_WAIT_MS = 60 * 60 * 1000;
+
 /** Options for waiting on requirements */
-export interface WaitOptions {
+export interface WaitOptions extends SignalOptions {
   /** Polling interval in milliseconds (default: 2000) */
   pollInterval?: number;
   /** Maximum wait time in milliseconds (default: 300000) */
@@ -38,17 +76,156 @@ export interface WaitOptions {
   onPoll?: (progress: ProgressData) => void;
 }
 
+/** Options for waiting on an SR's state */
+export interface WaitForStateOptions extends SignalOptions {
+  /** First polling interval in milliseconds (default: 2000) */
+  readonly pollInterval?: number;
+  /** Longest polling interval in milliseconds (default: 60000) */
+  readonly maxPollInterval?: number;
+  /** Multiplier applied to the interval after each poll (default: 1.5) */
+  readonly backoffFactor?: number;
+  /** Maximum wait time in milliseconds (default: 3600000) */
+  readonly maxWait?: number;
+  /** Data to include in each poll, as for `get()` */
+  readonly include?: Omit<GetSROptions, 'signal'>;
+  /** Called with the SR on the first poll and whenever its state changes */
+  readonly onStateChange?: (sr: ServiceRequest, previous: SRState | undefined) => void;
+}
+
+/** The state(s) to wait for, or a test the SR must pass */
+export type SRStateTarget =
+  | SRPrimaryState
+  | readonly SRPrimaryState[]
+  | ((sr: ServiceRequest) => boolean);
+
+/** Options for creating a Service Request */
+export interface CreateSROptions extends SignalOptions {
+  /**
+   * Idempotency key sent with the request. Reuse the same key when retrying
+   * a create yourself so the API does not create a duplicate SR.
+   * Generated automatically when the client has retries enabled.
+   */
+  readonly idempotencyKey?: string;
+  /**
+   * Check the request against the taxonomy with `validateRequest()` first,
+   * throwing `VALIDATION_ERROR` without sending it if anything is wrong.
+   * @default false
+   */
+  readonly validate?: boolean;
+}
+
+/** Options for submitting a Service Request */
+export interface SubmitSROptions extends SignalOptions {
+  /**
+   * Idempotency key sent with the request.
+   * Generated automatically when the client has retries enabled.
+   */
+  readonly idempotencyKey?: string;
+}
+
+/** Options for cancelling a Service Request */
+export interface CancelSROptions extends SignalOptions {
+  /** Why the SR is being cancelled, recorded on the SR */
+  readonly reason?: string;
+  /**
+   * Idempotency key sent with the request.
+   * Generated automatically when the client has retries enabled.
+   */
+  readonly idempotencyKey?: string;
+}
+
+/** Options for updating a Service Request */
+export interface UpdateSROptions extends SignalOptions {
+  /**
+   * Idempotency key sent with the request.
+   * Generated automatically when the client has retries enabled.
+   */
+  readonly idempotencyKey?: string;
+}
+
+/** Primary states from which an SR can be cancelled */
+const CANCELLABLE_STATES: readonly SRPrimaryState[] = [...new Set(
+  SR_STATES.filter(state => state.next.some(next => next.primary === 'CANCELLED')).map(state => state.primary)
+)];
+
+/** Primary states in which an SR's metadata can be changed */
+const UPDATABLE_STATES: readonly SRPrimaryState[] = SR_PRIMARY_STATES.filter(
+  primary => !isTerminal({ primary, supplement: null })
+);
+
+/** HTTP status the API answers when a change conflicts with the SR's state */
+const CONFLICT = 409;
+
+/** Filters for finding Service Requests */
+export interface SRListFilters {
+  /** Primary state, or any of several */
+  readonly state?: SRPrimaryState | readonly SRPrimaryState[];
+  /** Supplement state, or any of several */
+  readonly supplement?: SRSupplementState | readonly SRSupplementState[];
+  /** Your reference ID, as given to `create()` */
+  readonly external_id?: string;
+  /** Short display ID */
+  readonly micro_id?: string;
+  /** Only SRs created at or after this time (ISO 8601 string or Date) */
+  readonly created_after?: string | Date;
+  /** Only SRs created before this time (ISO 8601 string or Date) */
+  readonly created_before?: string | Date;
+  /** Current tab/queue */
+  readonly tab?: string;
+  /** Source platform */
+  readonly source?: string;
+}
+
+/** Options for listing Service Requests */
+export interface ListSRsOptions extends SRListFilters, SignalOptions {
+  /** Page number (1-based) */
+  readonly page?: number;
+  /** Number of results per page */
+  readonly pageSize?: number;
+  /** Cursor from a previous response's `next_cursor`; takes the place of `page` */
+  readonly cursor?: string;
+}
+
+/** Options for iterating every matching Service Request */
+export interface ListAllSRsOptions extends SRListFilters, PaginatorOptions {}
+
+/** Response from listing Service Requests */
+export interface ListSRsResponse {
+  readonly success: boolean;
+  readonly message: string;
+  readonly data: readonly ServiceRequest[];
+  readonly metadata?: {
+    readonly total_count: number;
+    readonly page_number: number;
+    readonly total_pages: number;
+    readonly page_size: number;
+  };
+  /** Cursor for the next page; `null` or absent on the last page */
+  readonly next_cursor?: string | null;
+}
+
 /**
  * Service Request resource for managing authentication requests.
  */
 export class ServiceRequests {
-  constructor(private readonly client: ResourceClient) {}
+  constructor(
+    private readonly client: ResourceClient,
+    private readonly taxonomy: Taxonomy = new Taxonomy(client)
+  ) {}
 
   /**
    * Create a new Service Request.
    * 
+   * When the client retries a failed create and the request has an
+   * `external_id`, the SDK first looks for an SR with that `external_id`
+   * created since the first attempt and returns it instead of creating a
+   * duplicate. Older SRs sharing the `external_id` are never returned.
+   * 
    * @param request - SR creation parameters
+   * @param options - Idempotency and validation options
    * @returns Created SR with UUID
+   * @throws {LegitmarkError} `VALIDATION_ERROR` with `context.details.errors` when `validate` finds problems,
+   *   or `AMBIGUOUS_MATCH_ERROR` when a retry finds several SRs created since the first attempt
    * 
    * @example
    * ```typescript
@@ -62,26 +239,215 @@ export class ServiceRequests {
    * });
    * ```
    */
-  async create(request: CreateSRRequest): Promise<CreateSRResponse> {
-    return this.client._post<CreateSRResponse>('/api/v2/sr', request);
+  async create(request: CreateSRRequest, options: CreateSROptions = {}): Promise<CreateSRResponse> {
+    if (options.validate) {
+      const errors = await this.validateRequest(request, { signal: options.signal });
+      if (errors.length > 0) {
+        throw new LegitmarkError('VALIDATION_ERROR', `Invalid service request: ${errors[0].message}`, {
+          context: { endpoint: '/api/v2/sr', details: { errors } },
+          suggestions: errors.map(e => e.message),
+        });
+      }
+    }
+
+    const externalId = request.external_id;
+    const startedAt = new Date();
+
+    return this.client._post<CreateSRResponse>('/api/v2/sr', request, {
+      idempotencyKey: options.idempotencyKey,
+      autoIdempotencyKey: true,
+      recover: externalId ? () => this.recoverCreate(externalId, startedAt, options.signal) : undefined,
+      signal: options.signal,
+    });
+  }
+
+  /**
+   * Check a create request against the taxonomy before sending it.
+   * 
+   * Catches what the API would otherwise reject after a round trip: missing
+   * fields, unknown or inactive entries, a type outside its category, and a
+   * brand (or model) not offered for the type. Uses the taxonomy cache when
+   * one is configured.
+   * 
+   * @param request - SR creation parameters
+   * @param options - Cancellation options
+   * @returns Problems found, in the shape of `ErrorResponse.error.errors`; empty when valid
+   * 
+   * @example
+   * ```typescript
+   * const errors = await client.sr.validateRequest(request);
+   * if (errors.length > 0) {
+   *   return res.status(400).json({ errors });
+   * }
+   * ```
+   */
+  async validateRequest(request: CreateSRRequest, options: SignalOptions = {}): Promise<ValidationError[]> {
+    const { signal } = options;
+    const item = request.item ?? {};
+    const errors: ValidationError[] = [];
+
+    for (const [field, value] of [
+      ['service', request.service],
+      ['item.category', item.category],
+      ['item.type', item.type],
+      ['item.brand', item.brand],
+    ] as const) {
+      if (!value) {
+        errors.push({ code: SR_VALIDATION_CODES.MISSING_FIELD, message: `${field} is required` });
+      }
+    }
+    if (!item.category || !item.type) {
+      return errors;
+    }
+
+    // Inactive entries are fetched too, so they can be reported as such
+    const { data: categories } = await this.taxonomy.getTree({ activeOnly: false, signal });
+    const category = categories.find(c => c.uuid === item.category);
+    const type = category?.types?.find(t => t.uuid === item.type);
+
+    if (!category) {
+      errors.push({ code: SR_VALIDATION_CODES.UNKNOWN_CATEGORY, message: `Category ${item.category} does not exist` });
+    } else if (!category.active) {
+      errors.push({ code: SR_VALIDATION_CODES.INACTIVE_CATEGORY, message: `Category ${category.name} is inactive` });
+    }
+
+    if (!type) {
+      const owner = categories.find(c => c.types?.some(t => t.uuid === item.type));
+      errors.push(owner
+        ? {
+          code: SR_VALIDATION_CODES.TYPE_NOT_IN_CATEGORY,
+          message: `Type ${item.type} belongs to category ${owner.name}${category ? `, not ${category.name}` : ''}`,
+        }
+        : { code: SR_VALIDATION_CODES.UNKNOWN_TYPE, message: `Type ${item.type} does not exist` });
+      return errors;
+    }
+    if (!type.active) {
+      errors.push({ code: SR_VALIDATION_CODES.INACTIVE_TYPE, message: `Type ${type.name} is inactive` });
+    }
+    if (!item.brand) {
+      return errors;
+    }
+
+    const { data: brands } = await this.taxonomy.getBrandsForType(type.uuid, { signal });
+    const brand = brands.find(b => b.uuid === item.brand);
+    if (!brand) {
+      errors.push({
+        code: SR_VALIDATION_CODES.BRAND_NOT_FOR_TYPE,
+        message: `Brand ${item.brand} is not available for type ${type.name}`,
+      });
+      return errors;
+    }
+    if (!brand.active) {
+      errors.push({ code: SR_VALIDATION_CODES.INACTIVE_BRAND, message: `Brand ${brand.name} is inactive` });
+    }
+
+    if (item.model) {
+      const models = new Paginator(
+        ({ page, pageSize }) => this.taxonomy.getModels(brand.uuid, type.uuid, { page, pageSize, signal }),
+        { signal }
+      );
+      let model;
+      for await (const candidate of models) {
+        if (candidate.uuid === item.model) {
+          model = candidate;
+          break;
+        }
+      }
+
+      if (!model) {
+        errors.push({
+          code: SR_VALIDATION_CODES.MODEL_NOT_FOR_BRAND,
+          message: `Model ${item.model} is not available for ${brand.name} ${type.name}`,
+        });
+      } else if (!model.active) {
+        errors.push({ code: SR_VALIDATION_CODES.INACTIVE_MODEL, message: `Model ${model.name} is inactive` });
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * List Service Requests matching the filters, one page at a time.
+   * 
+   * Page with `page`/`pageSize`, or pass the previous response's
+   * `next_cursor` as `cursor`. Use `listAll()` to iterate every match.
+   * 
+   * @param options - Filters, pagination and cancellation
+   * @returns One page of SRs
+   * @throws {ConfigurationError} If `created_after` or `created_before` is not a valid date
+   * 
+   * @example
+   * ```typescript
+   * const { data, metadata } = await client.sr.list({
+   *   state: ['QC', 'UNDERWAY'],
+   *   created_after: new Date(Date.now() - 24 * 60 * 60 * 1000),
+   *   pageSize: 50,
+   * });
+   * ```
+   */
+  async list(options: ListSRsOptions = {}): Promise<ListSRsResponse> {
+    const params = toListParams(options);
+
+    if (options.cursor) {
+      params.cursor = options.cursor;
+    } else if (options.page) {
+      params.page_number = String(options.page);
+    }
+    if (options.pageSize) {
+      params.page_size = String(options.pageSize);
+    }
+
+    return this.client._get<ListSRsResponse>('/api/v2/sr', params, { signal: options.signal });
+  }
+
+  /**
+   * Iterate every Service Request matching the filters across all pages.
+   * 
+   * @param options - Filters, page size, concurrency and cancellation
+   * @returns Async iterator of SRs; call `toArray()` to collect them
+   * 
+   * @example
+   * ```typescript
+   * // Nightly reconciliation
+   * for await (const sr of client.sr.listAll({ state: 'COMPLETE', created_after: lastRun })) {
+   *   await orders.markAuthenticated(sr.external_id, sr.state.supplement);
+   * }
+   * ```
+   */
+  listAll(options: ListAllSRsOptions = {}): Paginator<ServiceRequest> {
+    const { pageSize, concurrency, startPage, maxPages, signal, ...filters } = options;
+    // Validate dates up front rather than on the first page request
+    toListParams(filters);
+    return new Paginator(
+      ({ page, pageSize: size, signal: pageSignal }) => this.list({ ...filters, page, pageSize: size, signal: pageSignal }),
+      { pageSize, concurrency, startPage, maxPages, signal }
+    );
   }
 
   /**
    * Get a Service Request by UUID.
    * 
+   * The response type follows the include flags: fields requested with a
+   * literal `true` are present on `sr` and fully typed.
+   * 
    * @param uuid - Service Request UUID
    * @param options - What data to include
    * @returns Service Request with requested includes
    * 
    * @example
    * ```typescript
-   * const { sr } = await client.sr.get(uuid, {
-   *   requirements: true,
-   *   sides: true,
-   * });
+   * const { sr } = await client.sr.get(uuid, { outcome: true, stages: true });
+   * sr.stages.forEach(stage => console.log(stage.name, stage.status));
+   * if (sr.outcome) {
+   *   console.log(sr.outcome.verdict);
+   * }
    * ```
    */
-  async get(uuid: string, options: GetSROptions = {}): Promise<GetSRResponse> {
+  async get<const O extends GetSROptions = GetSROptions>(
+    uuid: string,
+    options: O = {} as O
+  ): Promise<GetSRResponse<O>> {
     const params: Record<string, string> = {};
     
     for (const [key, value] of Object.entries(options)) {
@@ -90,7 +456,50 @@ export class ServiceRequests {
       }
     }
 
-    return this.client._get<GetSRResponse>(`/api/v2/sr/${uuid}`, params);
+    return this.client._get<GetSRResponse<O>>(`/api/v2/sr/${uuid}`, params, { signal: options.signal });
+  }
+
+  /**
+   * Get a Service Request by the `external_id` it was created with.
+   * 
+   * Webhook payloads carry this as `reference_id`.
+   * 
+   * @param externalId - Your reference ID
+   * @param options - What data to include, as for `get()`
+   * @returns Service Request with requested includes
+   * @throws {LegitmarkError} `NOT_FOUND_ERROR` if no SR has this `external_id`,
+   *   or `AMBIGUOUS_MATCH_ERROR` if several do
+   * 
+   * @example
+   * ```typescript
+   * const { sr } = await client.sr.getByExternalId(event.reference_id, { outcome: true });
+   * ```
+   */
+  async getByExternalId<const O extends GetSROptions = GetSROptions>(
+    externalId: string,
+    options: O = {} as O
+  ): Promise<GetSRResponse<O>> {
+    return this.getBy('external_id', externalId, options);
+  }
+
+  /**
+   * Get a Service Request by its short display ID.
+   * 
+   * @param microId - The SR's `micro_id`, e.g. as quoted by a support agent
+   * @param options - What data to include, as for `get()`
+   * @returns Service Request with requested includes
+   * @throws {LegitmarkError} `NOT_FOUND_ERROR` if no SR has this `micro_id`
+   * 
+   * @example
+   * ```typescript
+   * const { sr } = await client.sr.getByMicroId('123456', { item: true });
+   * ```
+   */
+  async getByMicroId<const O extends GetSROptions = GetSROptions>(
+    microId: string,
+    options: O = {} as O
+  ): Promise<GetSRResponse<O>> {
+    return this.getBy('micro_id', microId, options);
   }
 
   /**
@@ -98,22 +507,28 @@ export class ServiceRequests {
    * Convenience method for `get(uuid, { requirements: true, sides: true, item: true })`.
    * 
    * @param uuid - Service Request UUID
+   * @param options - Cancellation options
    * @returns SR with requirements data
    */
-  async getWithRequirements(uuid: string): Promise<GetSRResponse> {
-    return this.get(uuid, { requirements: true, sides: true, item: true });
+  async getWithRequirements(
+    uuid: string,
+    options: SignalOptions = {}
+  ): Promise<GetSRResponse<{ requirements: true; sides: true; item: true }>> {
+    return this.get(uuid, { requirements: true, sides: true, item: true, signal: options.signal });
   }
 
   /**
    * Get SR with sides and media information.
    * 
    * @param uuid - Service Request UUID
+   * @param options - Cancellation options
    * @returns SR with sides and upload progress
    */
-  async getWithSides(uuid: string): Promise<GetSRWithSidesResponse> {
+  async getWithSides(uuid: string, options: SignalOptions = {}): Promise<GetSRWithSidesResponse> {
     return this.client._get<GetSRWithSidesResponse>(
       `/api/v2/sr/${uuid}`,
-      { item: 'true', sides: 'true' }
+      { item: 'true', sides: 'true' },
+      { signal: options.signal }
     );
   }
 
@@ -121,6 +536,7 @@ export class ServiceRequests {
    * Get upload progress for an SR.
    * 
    * @param uuid - Service Request UUID
+   * @param options - Cancellation options
    * @returns Progress data with counts
    * 
    * @example
@@ -131,8 +547,8 @@ export class ServiceRequests {
    * }
    * ```
    */
-  async getProgress(uuid: string): Promise<ProgressData> {
-    const response = await this.getWithSides(uuid);
+  async getProgress(uuid: string, options: SignalOptions = {}): Promise<ProgressData> {
+    const response = await this.getWithSides(uuid, options);
     const progress = response.sr.sides?.progress;
     
     // Default progress if not available - return met: false as safe default
@@ -170,7 +586,7 @@ export class ServiceRequests {
     const startTime = Date.now();
     
     while (Date.now() - startTime < maxWait) {
-      const progress = await this.getProgress(uuid);
+      const progress = await this.getProgress(uuid, { signal: options.signal });
       
       if (options.onPoll) {
         options.onPoll(progress);
@@ -180,7 +596,7 @@ export class ServiceRequests {
         return progress;
       }
       
-      await new Promise(resolve => setTimeout(resolve, pollInterval));
+      await sleep(pollInterval, options.signal);
     }
     
     throw new LegitmarkError(
@@ -197,10 +613,93 @@ export class ServiceRequests {
     );
   }
 
+  /**
+   * Poll an SR until it reaches a target state.
+   * 
+   * Polls start at `pollInterval` and back off by `backoffFactor` up to
+   * `maxPollInterval`, so long authentications do not poll at full rate.
+   * 
+   * @param uuid - Service Request UUID
+   * @param target - Primary state(s) to wait for, or a predicate on the SR
+   * @param options - Polling, includes and cancellation options
+   * @returns The SR in the target state
+   * @throws {LegitmarkError} `TIMEOUT_ERROR` after `maxWait`, with the last known state in `context.details.state`
+   * 
+   * @example
+   * ```typescript
+   * const final = await client.sr.waitForState(uuid, ['COMPLETE', 'CANCELLED'], {
+   *   include: { outcome: true },
+   *   onStateChange: (sr) => console.log(`${sr.state.primary} / ${sr.state.supplement}`),
+   * });
+   * ```
+   */
+  async waitForState(
+    uuid: string,
+    target: SRStateTarget,
+    options: WaitForStateOptions = {}
+  ): Promise<ServiceRequest> {
+    const reached = typeof target === 'function'
+      ? target
+      : (sr: ServiceRequest) => (typeof target === 'string' ? [target] : target).includes(sr.state.primary);
+    const maxPollInterval = options.maxPollInterval ?? DEFAULT_MAX_STATE_POLL_INTERVAL_MS;
+    const backoffFactor = options.backoffFactor ?? 1.5;
+    const maxWait = options.maxWait ?? DEFAULT_STATE_MAX_WAIT_MS;
+    const deadline = Date.now() + maxWait;
+    let interval = options.pollInterval ?? DEFAULT_STATE_POLL_INTERVAL_MS;
+    let last: ServiceRequest | undefined;
+
+    for (;;) {
+      const { sr } = await this.get(uuid, { ...options.include, signal: options.signal });
+
+      if (!last || last.state.primary !== sr.state.primary || last.state.supplement !== sr.state.supplement) {
+        options.onStateChange?.(sr, last?.state);
+      }
+      last = sr;
+
+      if (reached(sr)) {
+        return sr;
+      }
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        break;
+      }
+      await sleep(Math.min(interval, remaining), options.signal);
+      interval = Math.min(interval * backoffFactor, maxPollInterval);
+    }
+
+    throw new LegitmarkError(
+      'TIMEOUT_ERROR',
+      `Timeout waiting for service request ${uuid} after ${maxWait}ms (last state: ${formatState(last.state)})`,
+      {
+        isRetryable: true,
+        suggestions: [
+          'Increase maxWait option',
+          'Subscribe to webhooks instead of polling for long-running authentications',
+        ],
+        context: { details: { maxWait, state: last.state } },
+      }
+    );
+  }
+
+  /**
+   * Poll an SR until it is `COMPLETE` or `CANCELLED`.
+   * Convenience method for `waitForState(uuid, ['COMPLETE', 'CANCELLED'], options)`.
+   * 
+   * @param uuid - Service Request UUID
+   * @param options - Polling, includes and cancellation options
+   * @returns The SR in its final state
+   * @throws {LegitmarkError} `TIMEOUT_ERROR` after `maxWait`, with the last known state in `context.details.state`
+   */
+  async waitForCompletion(uuid: string, options: WaitForStateOptions = {}): Promise<ServiceRequest> {
+    return this.waitForState(uuid, (sr) => isTerminal(sr.state), options);
+  }
+
   /**
    * Submit SR for authentication.
    * 
    * @param uuid - Service Request UUID
+   * @param options - Idempotency options
    * @returns Submit response with new state
    * 
    * @example
@@ -209,7 +708,219 @@ export class ServiceRequests {
    * console.log(`SR submitted, new state: ${result.sr.primary_state}`);
    * ```
    */
-  async submit(uuid: string): Promise<SubmitSRResponse> {
-    return this.client._post<SubmitSRResponse>(`/api/v2/sr/${uuid}/submit`);
+  async submit(uuid: string, options: SubmitSROptions = {}): Promise<SubmitSRResponse> {
+    return this.client._post<SubmitSRResponse>(`/api/v2/sr/${uuid}/submit`, undefined, {
+      idempotencyKey: options.idempotencyKey,
+      autoIdempotencyKey: true,
+      signal: options.signal,
+    });
   }
+
+  /**
+   * Cancel a Service Request.
+   * 
+   * Only SRs that are not yet being authenticated (`DRAFT`, `QC` or
+   * `QUEUE`) can be cancelled. The current state is checked first, so a
+   * forbidden cancel fails without being sent.
+   * 
+   * @param uuid - Service Request UUID
+   * @param options - Reason, idempotency and cancellation options
+   * @returns The SR in its new `CANCELLED` state
+   * @throws {LegitmarkError} `VALIDATION_ERROR` with `context.details.state` if the SR's state forbids cancelling
+   * 
+   * @example
+   * ```typescript
+   * await client.sr.cancel(uuid, { reason: 'Listing withdrawn by seller' });
+   * ```
+   */
+  async cancel(uuid: string, options: CancelSROptions = {}): Promise<CancelSRResponse> {
+    const endpoint = `/api/v2/sr/${uuid}/cancel`;
+    await this.assertState(uuid, 'cancel', CANCELLABLE_STATES, endpoint, options.signal);
+
+    return withStateConflict('cancel', uuid, () => this.client._post<CancelSRResponse>(
+      endpoint,
+      options.reason ? { reason: options.reason } : undefined,
+      { idempotencyKey: options.idempotencyKey, autoIdempotencyKey: true, signal: options.signal }
+    ));
+  }
+
+  /**
+   * Change a Service Request's metadata: `external_id`, `source` and the
+   * item summary (style, size, condition).
+   * 
+   * Not possible once the SR is `COMPLETE` or `CANCELLED`. The current
+   * state is checked first, so a forbidden update fails without being sent.
+   * 
+   * @param uuid - Service Request UUID
+   * @param changes - Fields to change; omitted fields are left as they are
+   * @param options - Idempotency and cancellation options
+   * @returns The updated SR
+   * @throws {LegitmarkError} `VALIDATION_ERROR` if `changes` is empty, or with
+   *   `context.details.state` if the SR's state forbids the update
+   * 
+   * @example
+   * ```typescript
+   * const { sr } = await client.sr.update(uuid, {
+   *   external_id: 'inv-42',
+   *   summary: { item_size: '10.5', item_condition: 'New' },
+   * });
+   * ```
+   */
+  async update(uuid: string, changes: UpdateSRRequest, options: UpdateSROptions = {}): Promise<UpdateSRResponse> {
+    const endpoint = `/api/v2/sr/${uuid}`;
+    const { summary, ...fields } = changes;
+    const values = [...Object.values(fields), ...Object.values(summary ?? {})];
+    if (!values.some(value => value !== undefined)) {
+      throw new LegitmarkError('VALIDATION_ERROR', 'Nothing to update', {
+        context: { endpoint },
+        suggestions: ['Pass at least one of external_id, source or summary'],
+      });
+    }
+
+    await this.assertState(uuid, 'update', UPDATABLE_STATES, endpoint, options.signal);
+
+    return withStateConflict('update', uuid, () => this.client._patch<UpdateSRResponse>(endpoint, changes, {
+      idempotencyKey: options.idempotencyKey,
+      autoIdempotencyKey: true,
+      signal: options.signal,
+    }));
+  }
+
+  /**
+   * Throw `VALIDATION_ERROR` unless the SR is in one of the allowed primary states.
+   */
+  private async assertState(
+    uuid: string,
+    action: 'cancel' | 'update',
+    allowed: readonly SRPrimaryState[],
+    endpoint: string,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const { sr } = await this.get(uuid, { signal });
+    if (allowed.includes(sr.state.primary)) {
+      return;
+    }
+
+    throw new LegitmarkError(
+      'VALIDATION_ERROR',
+      `Cannot ${action} service request ${uuid} in state ${sr.state.primary}`,
+      {
+        context: { endpoint, details: { state: sr.state, allowed } },
+        suggestions: [`Only service requests in ${allowed.join(', ')} can be ${action === 'cancel' ? 'cancelled' : 'updated'}`],
+      }
+    );
+  }
+
+  /**
+   * Find the one SR with the given ID, then fetch it with the requested includes.
+   */
+  private async getBy<O extends GetSROptions>(
+    field: 'external_id' | 'micro_id',
+    value: string,
+    options: O
+  ): Promise<GetSRResponse<O>> {
+    const response = await this.list({ [field]: value, signal: options.signal });
+    const matches = (response.data ?? []).filter(candidate => candidate[field] === value);
+
+    if (matches.length === 0) {
+      throw new LegitmarkError('NOT_FOUND_ERROR', `No service request with ${field} ${value}`, {
+        context: { endpoint: '/api/v2/sr', details: { [field]: value } },
+        suggestions: [`Check the ${field}; it must match exactly`],
+      });
+    }
+    if (matches.length > 1) {
+      throw new LegitmarkError('AMBIGUOUS_MATCH_ERROR', `${matches.length} service requests have ${field} ${value}`, {
+        context: { endpoint: '/api/v2/sr', details: { [field]: value, uuids: matches.map(m => m.uuid) } },
+        suggestions: [`Use sr.list({ ${field} }) to choose one, then sr.get(uuid)`],
+      });
+    }
+
+    return this.get(matches[0].uuid, options);
+  }
+
+  /**
+   * Find an SR created by an earlier, failed create attempt. Partners reuse
+   * `external_id`, so only SRs created since `startedAt` can be ours.
+   */
+  private async recoverCreate(
+    externalId: string,
+    startedAt: Date,
+    signal?: AbortSignal
+  ): Promise<CreateSRResponse | undefined> {
+    const response = await this.list({ external_id: externalId, created_after: startedAt, signal });
+    const matches = (response.data ?? []).filter(candidate =>
+      candidate.external_id === externalId && Date.parse(candidate.created_at) >= startedAt.getTime()
+    );
+
+    if (matches.length > 1) {
+      throw new LegitmarkError(
+        'AMBIGUOUS_MATCH_ERROR',
+        `${matches.length} service requests with external_id ${externalId} were created since the first attempt`,
+        {
+          context: { endpoint: '/api/v2/sr', details: { external_id: externalId, uuids: matches.map(m => m.uuid) } },
+          suggestions: ['Use sr.list({ external_id }) to choose one; retrying would create another'],
+        }
+      );
+    }
+    if (matches.length === 0) {
+      return undefined;
+    }
+    return { success: true, message: 'Service request already exists', sr: matches[0] };
+  }
+}
+
+function toListParams(filters: SRListFilters): Record<string, string> {
+  const params: Record<string, string> = {};
+
+  for (const key of ['state', 'supplement'] as const) {
+    const value = filters[key];
+    if (value !== undefined && value.length > 0) {
+      params[key] = typeof value === 'string' ? value : value.join(',');
+    }
+  }
+  for (const key of ['external_id', 'micro_id', 'tab', 'source'] as const) {
+    const value = filters[key];
+    if (value) {
+      params[key] = value;
+    }
+  }
+  for (const key of ['created_after', 'created_before'] as const) {
+    const value = filters[key];
+    if (value !== undefined) {
+      params[key] = toIsoDate(key, value);
+    }
+  }
+
+  return params;
+}
+
+function toIsoDate(name: string, value: string | Date): string {
+  const date = value instanceof Date ? value : new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new ConfigurationError(`${name} must be a valid date`, ['Pass a Date or an ISO 8601 string']);
+  }
+  return date.toISOString();
+}
+
+/**
+ * Report a state conflict from the API (the SR changed state after it was
+ * checked) as the same `VALIDATION_ERROR` as the local check.
+ */
+async function withStateConflict<T>(action: 'cancel' | 'update', uuid: string, send: () => Promise<T>): Promise<T> {
+  try {
+    return await send();
+  } catch (error) {
+    if (error instanceof LegitmarkError && error.context.statusCode === CONFLICT) {
+      throw new LegitmarkError('VALIDATION_ERROR', `Cannot ${action} service request ${uuid}: ${error.message}`, {
+        context: error.context,
+        suggestions: ['Fetch the SR with sr.get() to see its current state'],
+        cause: error,
+      });
+    }
+    throw error;
+  }
+}
+
+function formatState(state: SRState): string {
+  return state.supplement ? `${state.primary}/${state.supplement}` : state.primary;
 }
@@ -7,6 +7,7 @@
  * ```typescript
  * const { categories } = await client.taxonomy.getTree();
  * const brands = await client.taxonomy.getBrandsForType(typeUuid);
+ * const models = await client.taxonomy.getModels(brandUuid, typeUuid);
  * ```
  */
 
@@ -14,9 +15,32 @@ import type {
   CatalogTreeResponse, 
   GetTreeOptions,
   Category,
+  Type,
   Brand,
+  Model,
+  SignalOptions,
+  TaxonomyRef,
 } from '../types';
 import type { ResourceClient } from './client';
+import { Paginator, type PaginatorOptions } from '../pagination';
+import { ConfigurationError, LegitmarkError, TaxonomyMatchError } from '../errors';
+import { BrandIndex, type BrandIndexOptions } from '../brand-index';
+import {
+  resolveExportColumns,
+  toCsvLine,
+  toExportRows,
+  toJsonLine,
+  type ExportedCategory,
+  type TaxonomyExportOptions,
+  type TaxonomyExportRow,
+  type TaxonomyExportRowsOptions,
+} from '../taxonomy-export';
+import {
+  matchName,
+  type MatchOptions,
+  type TaxonomyLevel,
+  type TaxonomyMatch,
+} from '../taxonomy-match';
 
 /** Response from listing categories */
 export interface ListCategoriesResponse {
@@ -32,7 +56,7 @@ export interface ListCategoriesResponse {
 }
 
 /** Options for listing categories */
-export interface ListCategoriesOptions {
+export interface ListCategoriesOptions extends SignalOptions {
   /** Only return active categories (default: true) */
   readonly activeOnly?: boolean;
   /** Page number for pagination */
@@ -55,7 +79,7 @@ export interface ListBrandsResponse {
 }
 
 /** Options for listing brands */
-export interface ListBrandsOptions {
+export interface ListBrandsOptions extends SignalOptions {
   /** Search query to filter brands by name */
   readonly search?: string;
   /** Page number for pagination */
@@ -64,6 +88,98 @@ export interface ListBrandsOptions {
   readonly pageSize?: number;
 }
 
+/** Response from listing models */
+export interface ListModelsResponse {
+  readonly success: boolean;
+  readonly message: string;
+  readonly data: readonly Model[];
+  readonly metadata?: {
+    readonly total_count: number;
+    readonly page_number: number;
+    readonly total_pages: number;
+    readonly page_size: number;
+  };
+}
+
+/** Options for listing models */
+export interface ListModelsOptions extends SignalOptions {
+  /** Search query to filter models by name */
+  readonly search?: string;
+  /** Page number for pagination */
+  readonly page?: number;
+  /** Items per page (max: 100) */
+  readonly pageSize?: number;
+}
+
+/** Options for iterating every category */
+export interface IterateCategoriesOptions extends PaginatorOptions {
+  /** Only return active categories (default: true) */
+  readonly activeOnly?: boolean;
+}
+
+/** Options for iterating every brand */
+export interface ListAllBrandsOptions extends PaginatorOptions {
+  /** Search query to filter brands by name */
+  readonly search?: string;
+}
+
+/** Options for building a brand search index */
+export interface CreateBrandIndexOptions extends BrandIndexOptions, Omit<PaginatorOptions, 'maxPages'> {}
+
+/** A type with a reference to the category it belongs to */
+export interface TypeWithCategory extends Type {
+  readonly category: TaxonomyRef;
+}
+
+/** A brand with the types, and their categories, that offer it */
+export interface BrandWithTypes extends Brand {
+  /** Types offering the brand, inactive ones included, in tree order */
+  readonly types: readonly TypeWithCategory[];
+  /** Categories of those types, each listed once */
+  readonly categories: readonly TaxonomyRef[];
+}
+
+/** Options for getting a brand */
+export interface GetBrandOptions extends SignalOptions {
+  /**
+   * Brand-per-type requests in flight at once while resolving the types.
+   * @default 4
+   */
+  readonly concurrency?: number;
+}
+
+/** Response from getting a brand by UUID */
+interface GetBrandResponse {
+  readonly success: boolean;
+  readonly message: string;
+  readonly data: Brand;
+}
+
+/** Catalog names to resolve, e.g. from merchandising data */
+export interface ResolveTaxonomyQuery {
+  readonly category: string;
+  readonly type: string;
+  readonly brand: string;
+}
+
+/** Options for resolving names to catalog UUIDs */
+export interface ResolveTaxonomyOptions extends MatchOptions, SignalOptions {}
+
+/** Catalog entries matched by {@link Taxonomy.resolve} */
+export interface ResolvedTaxonomy {
+  readonly category: TaxonomyMatch<Category>;
+  readonly type: TaxonomyMatch<Type>;
+  readonly brand: TaxonomyMatch<Brand>;
+  /** UUIDs ready for `CreateSRRequest.item` */
+  readonly item: {
+    readonly category: string;
+    readonly type: string;
+    readonly brand: string;
+  };
+  /** Lowest confidence of the three matches */
+  readonly confidence: number;
+}
+
 /** Response from getting brands for a type */
 export interface GetBrandsForTypeResponse {
   readonly success: boolean;
@@ -73,6 +189,9 @@ export interface GetBrandsForTypeResponse {
 
 /**
  * Taxonomy resource for accessing the product catalog.
+ *
+ * Responses are served from the taxonomy cache when
+ * {@link PartnerConfig.taxonomyCache} is configured.
  */
 export class Taxonomy {
   constructor(private readonly client: ResourceClient) {}
@@ -103,7 +222,7 @@ export class Taxonomy {
       params.active_only = 'true';
     }
 
-    return this.client._get<CatalogTreeResponse>('/api/v2/categories/tree', params);
+    return this.client._getCached<CatalogTreeResponse>('/api/v2/categories/tree', params, { signal: options.signal });
   }
 
   /**
@@ -133,7 +252,7 @@ export class Taxonomy {
       params.page_size = String(options.pageSize);
     }
 
-    return this.client._get<ListCategoriesResponse>('/api/v2/categories', params);
+    return this.client._getCached<ListCategoriesResponse>('/api/v2/categories', params, { signal: options.signal });
   }
 
   /**
@@ -166,7 +285,208 @@ export class Taxonomy {
       params.page_size = String(options.pageSize);
     }
 
-    return this.client._get<ListBrandsResponse>('/api/v2/brands', params);
+    // Searches bypass the cache: every typed term would otherwise become an entry
+    if (options.search) {
+      return this.client._get<ListBrandsResponse>('/api/v2/brands', params, { signal: options.signal });
+    }
+    return this.client._getCached<ListBrandsResponse>('/api/v2/brands', params, { signal: options.signal });
+  }
+
+  /**
+   * Get a category by UUID, with its types.
+   * 
+   * Looked up in the taxonomy tree (including inactive entries), so with
+   * the taxonomy cache enabled repeated lookups need no network.
+   * 
+   * @param uuid - Category UUID
+   * @param options - Cancellation options
+   * @returns The category
+   * @throws {LegitmarkError} `NOT_FOUND_ERROR` if no category has this UUID
+   * 
+   * @example
+   * ```typescript
+   * const category = await client.taxonomy.getCategory(stored.categoryUuid);
+   * console.log(category.name, category.types?.map(t => t.name));
+   * ```
+   */
+  async getCategory(uuid: string, options: SignalOptions = {}): Promise<Category> {
+    const { data: categories } = await this.getTree({ activeOnly: false, signal: options.signal });
+    const category = categories.find(c => c.uuid === uuid);
+    if (!category) {
+      throw notFound('category', uuid, categories);
+    }
+    return category;
+  }
+
+  /**
+   * Get a type by UUID, with the category it belongs to.
+   * 
+   * Looked up in the taxonomy tree (including inactive entries), so with
+   * the taxonomy cache enabled repeated lookups need no network.
+   * 
+   * @param uuid - Type UUID
+   * @param options - Cancellation options
+   * @returns The type and a reference to its category
+   * @throws {LegitmarkError} `NOT_FOUND_ERROR` if no type has this UUID
+   * 
+   * @example
+   * ```typescript
+   * const type = await client.taxonomy.getType(stored.typeUuid);
+   * console.log(`${type.category.name} / ${type.name}`);
+   * ```
+   */
+  async getType(uuid: string, options: SignalOptions = {}): Promise<TypeWithCategory> {
+    const { data: categories } = await this.getTree({ activeOnly: false, signal: options.signal });
+    for (const category of categories) {
+      const type = category.types?.find(t => t.uuid === uuid);
+      if (type) {
+        return { ...type, category: toRef(category) };
+      }
+    }
+    throw notFound('type', uuid, categories);
+  }
+
+  /**
+   * Get a brand by UUID, with the types and categories that offer it.
+   * 
+   * The types are found by checking the brands offered for every type in
+   * the tree (one request per type), so enable the taxonomy cache when
+   * looking up brands often.
+   * 
+   * @param uuid - Brand UUID
+   * @param options - Concurrency and cancellation options
+   * @returns The brand and the types and categories offering it
+   * @throws {LegitmarkError} `NOT_FOUND_ERROR` if no brand has this UUID
+   * 
+   * @example
+   * ```typescript
+   * const brand = await client.taxonomy.getBrand(stored.brandUuid);
+   * console.log(`${brand.name}: ${brand.types.map(t => `${t.category.name} / ${t.name}`).join(', ')}`);
+   * ```
+   */
+  async getBrand(uuid: string, options: GetBrandOptions = {}): Promise<BrandWithTypes> {
+    const brand = await this.fetchBrand(uuid, options.signal);
+
+    const types: TypeWithCategory[] = [];
+    const categories = new Map<string, TaxonomyRef>();
+    for await (const exported of this.walk({ concurrency: options.concurrency, signal: options.signal })) {
+      for (const { type, brands } of exported.types) {
+        if (brands?.some(offered => offered.uuid === uuid)) {
+          const category = toRef(exported.category);
+          types.push({ ...type, category });
+          categories.set(category.uuid, category);
+        }
+      }
+    }
+
+    return { ...brand, types, categories: [...categories.values()] };
+  }
+
+  /**
+   * Iterate every category across all pages.
+   * 
+   * @param options - Filter, page size, concurrency and cancellation options
+   * @returns Async iterator over categories; call `toArray()` to collect them
+   * 
+   * @example
+   * ```typescript
+   * for await (const category of client.taxonomy.iterateCategories()) {
+   *   console.log(category.name);
+   * }
+   * ```
+   */
+  iterateCategories(options: IterateCategoriesOptions = {}): Paginator<Category> {
+    const { activeOnly, ...paginatorOptions } = options;
+    return new Paginator(
+      ({ page, pageSize, signal }) => this.getCategories({ activeOnly, page, pageSize, signal }),
+      paginatorOptions
+    );
+  }
+
+  /**
+   * Iterate every brand across all pages.
+   * 
+   * @param options - Search, page size, concurrency and cancellation options
+   * @returns Async iterator over brands; call `toArray()` to collect them
+   * 
+   * @example
+   * ```typescript
+   * // Sync the full brand list, four pages at a time
+   * for await (const brand of client.taxonomy.listAllBrands({ concurrency: 4 })) {
+   *   await db.upsertBrand(brand);
+   * }
+   * ```
+   */
+  listAllBrands(options: ListAllBrandsOptions = {}): Paginator<Brand> {
+    const { search, ...paginatorOptions } = options;
+    return new Paginator(
+      ({ page, pageSize, signal }) => this.getBrands({ search, page, pageSize, signal }),
+      paginatorOptions
+    );
+  }
+
+  /**
+   * Fetch every brand and build a local search index over them.
+   * 
+   * The index answers typeahead queries without further API calls. Rebuild
+   * it periodically, or persist it with `JSON.stringify(index)` and restore
+   * it with `BrandIndex.fromJSON()`.
+   * 
+   * @param options - Aliases, popularity and paging options
+   * @returns The brand index
+   * 
+   * @example
+   * ```typescript
+   * const index = await client.taxonomy.createBrandIndex({
+   *   aliases: { [airJordanUuid]: ['Jordan', 'AJ'] },
+   * });
+   * 
+   * index.search('jor');  // [{ brand: { name: 'Air Jordan', ... }, score: 0.9, matched: 'Jordan' }]
+   * ```
+   */
+  async createBrandIndex(options: CreateBrandIndexOptions = {}): Promise<BrandIndex> {
+    const { aliases, popularity, ...paginatorOptions } = options;
+    const brands = await this.listAllBrands(paginatorOptions).toArray();
+    return new BrandIndex(brands, { aliases, popularity });
+  }
+
+  /**
+   * Resolve category, type and brand names to catalog UUIDs.
+   * 
+   * Names are matched case- and accent-insensitively with fuzzy scoring:
+   * the category against the active taxonomy tree, the type within that
+   * category, and the brand against the brands available for that type.
+   * 
+   * @param query - Category, type and brand names
+   * @param options - Match thresholds and cancellation options
+   * @returns Matched entries with confidence scores, and the UUIDs for `sr.create()`
+   * @throws {TaxonomyMatchError} `NOT_FOUND_ERROR` or `AMBIGUOUS_MATCH_ERROR`, listing the closest candidates
+   * 
+   * @example
+   * ```typescript
+   * const [category, type, brand] = 'Footwear / Sneakers / Nike'.split(' / ');
+   * const resolved = await client.taxonomy.resolve({ category, type, brand });
+   * 
+   * await client.sr.create({ service: serviceUuid, item: resolved.item });
+   * ```
+   */
+  async resolve(query: ResolveTaxonomyQuery, options: ResolveTaxonomyOptions = {}): Promise<ResolvedTaxonomy> {
+    const { signal, ...matchOptions } = options;
+
+    const { data: categories } = await this.getTree({ signal });
+    const category = resolveName('category', query.category, categories, matchOptions);
+    const type = resolveName('type', query.type, category.value.types ?? [], matchOptions);
+
+    const { data: brands } = await this.getBrandsForType(type.uuid, { signal });
+    const brand = resolveName('brand', query.brand, brands, matchOptions);
+
+    return {
+      category,
+      type,
+      brand,
+      item: { category: category.uuid, type: type.uuid, brand: brand.uuid },
+      confidence: Math.min(category.confidence, type.confidence, brand.confidence),
+    };
   }
 
   /**
@@ -176,6 +496,7 @@ export class Taxonomy {
    * of brands that can be authenticated for that type.
    * 
    * @param typeUuid - The type UUID to get brands for
+   * @param options - Cancellation options
    * @returns List of brands for the type
    * 
    * @example
@@ -189,7 +510,221 @@ export class Taxonomy {
    * }
    * ```
    */
-  async getBrandsForType(typeUuid: string): Promise<GetBrandsForTypeResponse> {
-    return this.client._get<GetBrandsForTypeResponse>(`/api/v2/types/${typeUuid}/brands`);
+  async getBrandsForType(typeUuid: string, options: SignalOptions = {}): Promise<GetBrandsForTypeResponse> {
+    return this.client._getCached<GetBrandsForTypeResponse>(
+      `/api/v2/types/${typeUuid}/brands`,
+      undefined,
+      { signal: options.signal }
+    );
+  }
+
+  /**
+   * List models of a brand within a type.
+   * 
+   * Pass the model UUID as `item.model` to `sr.create()` to authenticate
+   * at model granularity.
+   * 
+   * @param brandUuid - Brand UUID
+   * @param typeUuid - Type UUID
+   * @param options - Search, pagination and cancellation options
+   * @returns Paginated list of models
+   * 
+   * @example
+   * ```typescript
+   * const { data: models } = await client.taxonomy.getModels(nikeUuid, sneakersUuid, { search: 'Dunk' });
+   * 
+   * await client.sr.create({
+   *   service: serviceUuid,
+   *   item: { category: footwearUuid, type: sneakersUuid, brand: nikeUuid, model: models[0].uuid },
+   * });
+   * ```
+   */
+  async getModels(brandUuid: string, typeUuid: string, options: ListModelsOptions = {}): Promise<ListModelsResponse> {
+    const params: Record<string, string> = {};
+    
+    if (options.search) {
+      params.search = options.search;
+    }
+    if (options.page) {
+      params.page_number = String(options.page);
+    }
+    if (options.pageSize) {
+      params.page_size = String(options.pageSize);
+    }
+
+    const endpoint = `/api/v2/types/${typeUuid}/brands/${brandUuid}/models`;
+    if (options.search) {
+      return this.client._get<ListModelsResponse>(endpoint, params, { signal: options.signal });
+    }
+    return this.client._getCached<ListModelsResponse>(endpoint, params, { signal: options.signal });
+  }
+
+  /**
+   * Walk the full taxonomy as flat rows: one per category/type/brand
+   * combination, in tree order.
+   * 
+   * Brands for the next types are fetched while earlier rows are consumed,
+   * up to `concurrency` at a time. Inactive entries are included unless
+   * `activeOnly` is set.
+   * 
+   * @param options - Filtering, brand mappings and cancellation
+   * @returns Async iterator of rows
+   * @throws {ConfigurationError} If `concurrency` is not a positive integer
+   * 
+   * @example
+   * ```typescript
+   * for await (const row of client.taxonomy.exportRows()) {
+   *   sheet.addRow(row);
+   * }
+   * ```
+   */
+  async *exportRows(options: TaxonomyExportRowsOptions = {}): AsyncGenerator<TaxonomyExportRow, void, undefined> {
+    for await (const category of this.walk(options)) {
+      yield* toExportRows(category);
+    }
+  }
+
+  /**
+   * Export the full taxonomy as CSV or newline-delimited JSON, streamed in
+   * chunks so large catalogs never need to be held as one string.
+   * 
+   * @param options - Format, columns, filtering and cancellation
+   * @returns Async iterator of text chunks, each ending in a newline
+   * @throws {ConfigurationError} If `format` or a column is unknown
+   * 
+   * @example
+   * ```typescript
+   * import { createWriteStream } from 'fs';
+   * import { Readable } from 'stream';
+   * 
+   * Readable.from(client.taxonomy.export({ format: 'csv' }))
+   *   .pipe(createWriteStream('taxonomy.csv'));
+   * ```
+   */
+  async *export(options: TaxonomyExportOptions = {}): AsyncGenerator<string, void, undefined> {
+    const { format = 'csv', columns: selected, escapeFormulas = true, ...walkOptions } = options;
+    if (format !== 'csv' && format !== 'json') {
+      throw new ConfigurationError(`Unknown export format: ${String(format)}`, ["Use 'csv' or 'json'"]);
+    }
+    const columns = resolveExportColumns(selected);
+
+    if (format === 'json') {
+      for await (const category of this.walk(walkOptions)) {
+        yield toJsonLine(category, columns);
+      }
+      return;
+    }
+
+    yield toCsvLine(columns, escapeFormulas);
+    for await (const category of this.walk(walkOptions)) {
+      for (const row of toExportRows(category)) {
+        yield toCsvLine(columns.map(column => row[column]), escapeFormulas);
+      }
+    }
+  }
+
+  private async fetchBrand(uuid: string, signal?: AbortSignal): Promise<Brand> {
+    try {
+      const { data } = await this.client._getCached<GetBrandResponse>(`/api/v2/brands/${uuid}`, undefined, { signal });
+      return data;
+    } catch (error) {
+      if (error instanceof LegitmarkError && error.code === 'NOT_FOUND_ERROR') {
+        throw new LegitmarkError('NOT_FOUND_ERROR', `Brand ${uuid} not found`, {
+          context: error.context,
+          suggestions: ['Find the brand by name with taxonomy.getBrands({ search }) or taxonomy.resolve()'],
+          cause: error,
+        });
+      }
+      throw error;
+    }
+  }
+
+  private async *walk(options: TaxonomyExportRowsOptions): AsyncGenerator<ExportedCategory, void, undefined> {
+    const concurrency = options.concurrency ?? 4;
+    if (!(Number.isInteger(concurrency) && concurrency > 0)) {
+      throw new ConfigurationError('concurrency must be a positive integer');
+    }
+    const activeOnly = options.activeOnly ?? false;
+    const { data: categories } = await this.getTree({ activeOnly, signal: options.signal });
+    const types = categories.flatMap(category => category.types ?? []);
+
+    // Aborts prefetched brand requests when iteration stops early
+    const controller = new AbortController();
+    const onAbort = (): void => controller.abort(options.signal?.reason);
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
+    const pending: Promise<readonly Brand[]>[] = [];
+    const prefetch = (upTo: number): void => {
+      for (let i = pending.length; i < Math.min(upTo, types.length); i++) {
+        const request = this.getBrandsForType(types[i].uuid, { signal: controller.signal })
+          .then(({ data }) => (data ?? []).filter(brand => brand.active || !activeOnly));
+        request.catch(() => undefined);
+        pending.push(request);
+      }
+    };
+
+    try {
+      let index = 0;
+      for (const category of categories) {
+        const exported: { type: Type; brands?: readonly Brand[] }[] = [];
+        for (const type of category.types ?? []) {
+          if (options.brands === false) {
+            exported.push({ type });
+          } else {
+            prefetch(index + concurrency);
+            exported.push({ type, brands: await pending[index] });
+          }
+          index++;
+        }
+        yield { category, types: exported };
+      }
+    } finally {
+      options.signal?.removeEventListener('abort', onAbort);
+      controller.abort();
+    }
   }
 }
+
+function resolveName<T extends { readonly uuid: string; readonly name: string }>(
+  level: TaxonomyLevel,
+  query: string,
+  entries: readonly T[],
+  options: MatchOptions
+): TaxonomyMatch<T> {
+  const result = matchName(query, entries, options);
+  if (result.status === 'matched') {
+    return result.match;
+  }
+  throw new TaxonomyMatchError(
+    result.status === 'ambiguous' ? 'AMBIGUOUS_MATCH_ERROR' : 'NOT_FOUND_ERROR',
+    level,
+    query,
+    result.candidates
+  );
+}
+
+function toRef(category: Category): TaxonomyRef {
+  return { uuid: category.uuid, name: category.name, media: category.media };
+}
+
+/**
+ * Build the error for an unknown category or type UUID, pointing out when
+ * the UUID belongs to the other level.
+ */
+function notFound(level: 'category' | 'type', uuid: string, categories: readonly Category[]): LegitmarkError {
+  const asCategory = categories.find(c => c.uuid === uuid);
+  const asTypeOf = categories.find(c => c.types?.some(t => t.uuid === uuid));
+
+  let suggestion = 'Check the UUID against taxonomy.getTree({ activeOnly: false }); the entry may have been removed';
+  if (level === 'type' && asCategory) {
+    suggestion = `${uuid} is the category ${asCategory.name}; use taxonomy.getCategory()`;
+  } else if (level === 'category' && asTypeOf) {
+    suggestion = `${uuid} is a type under ${asTypeOf.name}; use taxonomy.getType()`;
+  }
+
+  const label = level === 'category' ? 'Category' : 'Type';
+  return new LegitmarkError('NOT_FOUND_ERROR', `${label} ${uuid} not found`, {
+    context: { details: { level, uuid } },
+    suggestions: [suggestion],
+  });
+}
@@ -1,8 +1,12 @@
 import { LegitmarkError } from './errors';
+import { sleep } from './abort';
 
 const DEFAULT_RETRY_ATTEMPTS = 3;
 const DEFAULT_RETRY_DELAY_MS = 1000;
 const RETRY_BACKOFF_MULTIPLIER = 2;
+const DEFAULT_POLICY_DELAY_MS = 500;
+/** @internal */
+export const DEFAULT_POLICY_MAX_DELAY_MS = 30_000;
 
 /**
  * Options for retry behavior.
@@ -72,9 +76,95 @@ export async function withRetry<T>(
         ? delay * Math.pow(RETRY_BACKOFF_MULTIPLIER, attempt - 1)
         : delay;
 
-      await new Promise(resolve => setTimeout(resolve, waitTime));
+      await sleep(waitTime);
     }
   }
 
   throw lastError;
 }
+
+/**
+ * Automatic retry policy for {@link PartnerClient} requests.
+ *
+ * Retries apply to idempotent requests (GET, PUT, DELETE) and to POSTs that
+ * carry an `Idempotency-Key` header. Only errors marked `isRetryable` are
+ * retried. A `Retry-After` header on 429/503 responses takes precedence over
+ * the computed backoff.
+ *
+ * @example
+ * ```typescript
+ * const client = new PartnerClient({
+ *   apiKey: 'leo_xxx',
+ *   retry: { attempts: 4, delay: 250 },
+ * });
+ * ```
+ */
+export interface RetryPolicy {
+  /** Maximum number of attempts, including the first (default: 3) */
+  readonly attempts?: number;
+  /** Base delay for exponential backoff in ms (default: 500) */
+  readonly delay?: number;
+  /** Upper bound for any single wait in ms, including Retry-After (default: 30000) */
+  readonly maxDelay?: number;
+  /** Randomize backoff delays to avoid synchronized retries (default: true) */
+  readonly jitter?: boolean;
+  /** Called before each retry attempt */
+  readonly onRetry?: (error: LegitmarkError, attempt: number, delayMs: number) => void;
+}
+
+/** @internal */
+export type ResolvedRetryPolicy = Required<Omit<RetryPolicy, 'onRetry'>> & Pick<RetryPolicy, 'onRetry'>;
+
+/**
+ * Normalize the `retry` config value. Returns `undefined` when retries are off.
+ * @internal
+ */
+export function resolveRetryPolicy(retry: RetryPolicy | boolean | undefined): ResolvedRetryPolicy | undefined {
+  if (!retry) {
+    return undefined;
+  }
+  const policy = retry === true ? {} : retry;
+  return {
+    attempts: policy.attempts ?? DEFAULT_RETRY_ATTEMPTS,
+    delay: policy.delay ?? DEFAULT_POLICY_DELAY_MS,
+    maxDelay: policy.maxDelay ?? DEFAULT_POLICY_MAX_DELAY_MS,
+    jitter: policy.jitter ?? true,
+    onRetry: policy.onRetry,
+  };
+}
+
+/**
+ * Compute the wait before the next attempt.
+ *
+ * @param policy - Resolved retry policy
+ * @param attempt - The attempt that just failed (1-based)
+ * @param retryAfterMs - Server-requested wait from `Retry-After`, if any
+ * @internal
+ */
+export function getRetryDelay(policy: ResolvedRetryPolicy, attempt: number, retryAfterMs?: number): number {
+  if (retryAfterMs !== undefined) {
+    return Math.min(retryAfterMs, policy.maxDelay);
+  }
+  const backoff = Math.min(policy.delay * Math.pow(RETRY_BACKOFF_MULTIPLIER, attempt - 1), policy.maxDelay);
+  // Equal jitter: keep half the backoff, randomize the other half
+  return policy.jitter ? Math.round(backoff / 2 + Math.random() * (backoff / 2)) : backoff;
+}
+
+/**
+ * Parse a `Retry-After` header (delay-seconds or HTTP-date) into milliseconds.
+ * @internal
+ */
+export function parseRetryAfter(value: string | undefined, now: number = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+  return Math.max(0, date - now);
+}
@@ -0,0 +1,226 @@
+/**
+ * Service Request State Machine
+ *
+ * The valid primary/supplement combinations of an SR, the transitions
+ * between them, and customer-facing copy for each. Shared by the SR
+ * resource, the webhook parser and helpers, and partner UIs.
+ *
+ * @see {@link https://docs.legitmark.com/webhook-reference/events#state_change} State Change Events
+ */
+
+import type { SRPrimaryState, SRState, SRSupplementState, UnknownSRState } from './types';
+
+/** Every primary state */
+export const SR_PRIMARY_STATES: readonly SRPrimaryState[] = ['DRAFT', 'QC', 'QUEUE', 'UNDERWAY', 'COMPLETE', 'CANCELLED'];
+
+/** Every supplement state */
+export const SR_SUPPLEMENT_STATES: readonly SRSupplementState[] = ['PENDING', 'REJECTED', 'ASSIGNED', 'APPROVED', 'COMPLETE'];
+
+/** One valid primary/supplement combination */
+export interface SRStateInfo extends SRState {
+  /** The SR never leaves this state */
+  readonly terminal: boolean;
+  /** The partner has to act (upload or retake photos) before the SR can progress */
+  readonly actionable: boolean;
+  /** Short customer-facing label */
+  readonly label: string;
+  /** Customer-facing sentence describing the state */
+  readonly description: string;
+  /** States the SR can move to from here */
+  readonly next: readonly SRState[];
+}
+
+const DRAFT: SRState = { primary: 'DRAFT', supplement: null };
+const QC_PENDING: SRState = { primary: 'QC', supplement: 'PENDING' };
+const QC_REJECTED: SRState = { primary: 'QC', supplement: 'REJECTED' };
+const QC_APPROVED: SRState = { primary: 'QC', supplement: 'APPROVED' };
+const QUEUE_PENDING: SRState = { primary: 'QUEUE', supplement: 'PENDING' };
+const UNDERWAY_ASSIGNED: SRState = { primary: 'UNDERWAY', supplement: 'ASSIGNED' };
+const COMPLETE_APPROVED: SRState = { primary: 'COMPLETE', supplement: 'APPROVED' };
+const COMPLETE_REJECTED: SRState = { primary: 'COMPLETE', supplement: 'REJECTED' };
+const CANCELLED: SRState = { primary: 'CANCELLED', supplement: null };
+
+/**
+ * The SR state machine: every valid state with its flags, copy and
+ * outgoing transitions.
+ *
+ * @example
+ * ```typescript
+ * // Render a progress tracker
+ * for (const state of SR_STATES.filter(s => !s.terminal)) {
+ *   tracker.addStep(state.label, isSameState(state, sr.state));
+ * }
+ * ```
+ */
+export const SR_STATES: readonly SRStateInfo[] = [
+  {
+    ...DRAFT,
+    terminal: false,
+    actionable: true,
+    label: 'Draft',
+    description: 'Waiting for photos to be uploaded and the request to be submitted.',
+    next: [QC_PENDING, CANCELLED],
+  },
+  {
+    ...QC_PENDING,
+    terminal: false,
+    actionable: false,
+    label: 'In review',
+    description: 'Photos are being checked for quality.',
+    next: [QC_APPROVED, QC_REJECTED, CANCELLED],
+  },
+  {
+    ...QC_REJECTED,
+    terminal: false,
+    actionable: true,
+    label: 'Action needed',
+    description: 'Some photos need to be retaken before authentication can start.',
+    next: [QC_PENDING, CANCELLED],
+  },
+  {
+    ...QC_APPROVED,
+    terminal: false,
+    actionable: false,
+    label: 'Photos approved',
+    description: 'Photos passed review and the item is ready for authentication.',
+    next: [QUEUE_PENDING, UNDERWAY_ASSIGNED, CANCELLED],
+  },
+  {
+    ...QUEUE_PENDING,
+    terminal: false,
+    actionable: false,
+    label: 'Queued',
+    description: 'Waiting for an authenticator.',
+    next: [UNDERWAY_ASSIGNED, CANCELLED],
+  },
+  {
+    ...UNDERWAY_ASSIGNED,
+    terminal: false,
+    actionable: false,
+    label: 'Authenticating',
+    description: 'An authenticator is examining the item.',
+    next: [COMPLETE_APPROVED, COMPLETE_REJECTED],
+  },
+  {
+    ...COMPLETE_APPROVED,
+    terminal: true,
+    actionable: false,
+    label: 'Authentic',
+    description: 'The item was authenticated as genuine.',
+    next: [],
+  },
+  {
+    ...COMPLETE_REJECTED,
+    terminal: true,
+    actionable: false,
+    label: 'Not authentic',
+    description: 'The item could not be authenticated as genuine.',
+    next: [],
+  },
+  {
+    ...CANCELLED,
+    terminal: true,
+    actionable: false,
+    label: 'Cancelled',
+    description: 'The request was cancelled.',
+    next: [],
+  },
+];
+
+/** Copy for combinations missing from {@link SR_STATES}, by primary state */
+const PRIMARY_DESCRIPTIONS: Readonly<Record<SRPrimaryState, string>> = {
+  DRAFT: 'Waiting for photos to be uploaded and the request to be submitted.',
+  QC: 'Photos are being reviewed.',
+  QUEUE: 'Waiting for an authenticator.',
+  UNDERWAY: 'Authentication is in progress.',
+  COMPLETE: 'Authentication is complete.',
+  CANCELLED: 'The request was cancelled.',
+};
+
+const TERMINAL_PRIMARY_STATES: ReadonlySet<string> = new Set<SRPrimaryState>(['COMPLETE', 'CANCELLED']);
+
+const BY_KEY = new Map(SR_STATES.map(info => [stateKey(info), info]));
+
+/**
+ * Whether a state uses only primary and supplement values this SDK knows.
+ *
+ * @example
+ * ```typescript
+ * if (isKnownState(event.state)) {
+ *   switch (event.state.primary) { ... } // exhaustive over SRPrimaryState
+ * }
+ * ```
+ */
+export function isKnownState(state: SRState | UnknownSRState): state is SRState {
+  return (SR_PRIMARY_STATES as readonly string[]).includes(state.primary)
+    && (state.supplement === null || (SR_SUPPLEMENT_STATES as readonly string[]).includes(state.supplement));
+}
+
+/**
+ * Look up a state in the state machine.
+ *
+ * @param state - Primary and supplement state
+ * @returns The state's flags, copy and transitions, or `undefined` for an unknown combination
+ */
+export function getStateInfo(state: SRState | UnknownSRState): SRStateInfo | undefined {
+  return BY_KEY.get(stateKey(state));
+}
+
+/**
+ * Whether two states are the same primary/supplement combination.
+ */
+export function isSameState(a: SRState | UnknownSRState, b: SRState | UnknownSRState): boolean {
+  return stateKey(a) === stateKey(b);
+}
+
+/**
+ * Whether the SR has reached a final state (`COMPLETE` or `CANCELLED`).
+ * Decided by the primary state, so also holds for combinations not in {@link SR_STATES}.
+ */
+export function isTerminal(state: SRState | UnknownSRState): boolean {
+  return TERMINAL_PRIMARY_STATES.has(state.primary);
+}
+
+/**
+ * Whether the partner has to act (upload or retake photos) for the SR to progress.
+ */
+export function isActionable(state: SRState | UnknownSRState): boolean {
+  return getStateInfo(state)?.actionable ?? false;
+}
+
+/**
+ * Whether an SR can move directly from one state to another.
+ *
+ * @example
+ * ```typescript
+ * if (!canTransition(stored.state, event.state)) {
+ *   logger.warn('Out-of-order webhook', { from: stored.state, to: event.state });
+ * }
+ * ```
+ */
+export function canTransition(from: SRState | UnknownSRState, to: SRState | UnknownSRState): boolean {
+  return getStateInfo(from)?.next.some(next => isSameState(next, to)) ?? false;
+}
+
+/**
+ * Customer-facing description of a state.
+ *
+ * Unknown combinations fall back to a description of the primary state.
+ *
+ * @example
+ * ```typescript
+ * statusLine.textContent = describeState(sr.state);
+ * // "An authenticator is examining the item."
+ * ```
+ */
+export function describeState(state: SRState | UnknownSRState): string {
+  const info = getStateInfo(state);
+  if (info) {
+    return info.description;
+  }
+  return isKnownState(state) ? PRIMARY_DESCRIPTIONS[state.primary] : `Status: ${state.primary}`;
+}
+
+function stateKey(state: SRState | UnknownSRState): string {
+  return `${state.primary}/${state.supplement ?? ''}`;
+}
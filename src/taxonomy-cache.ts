@@ -0,0 +1,324 @@
+/**
+ * Taxonomy Cache
+ *
+ * Keeps taxonomy responses (tree, categories, brands) for a TTL so the
+ * catalog is not re-fetched on every call. Expired entries are revalidated
+ * with `If-None-Match`/`If-Modified-Since`, and entries can be persisted to
+ * a snapshot file so a cold start can serve the catalog without network.
+ */
+
+import { raceAbort, throwIfAborted } from './abort';
+import { ConfigurationError, LegitmarkError } from './errors';
+import type { LegitmarkErrorCode } from './types';
+
+/** One cached response */
+export interface TaxonomyCacheEntry {
+  /** Response body */
+  readonly data: unknown;
+  /** When the entry was fetched or last revalidated (epoch milliseconds) */
+  readonly storedAt: number;
+  /** `ETag` response header */
+  readonly etag?: string;
+  /** `Last-Modified` response header */
+  readonly lastModified?: string;
+}
+
+/**
+ * Serialized cache contents, as written by {@link createFileStorage}.
+ * Safe to `JSON.stringify` and commit or bake into an image.
+ */
+export interface TaxonomySnapshot {
+  readonly version: 1;
+  readonly entries: Readonly<Record<string, TaxonomyCacheEntry>>;
+}
+
+/**
+ * Where cache entries live. Implement this to back the cache with your own
+ * key/value store (Redis, KV, a database table).
+ *
+ * @example
+ * ```typescript
+ * const storage: TaxonomyCacheStorage = {
+ *   get: async (key) => JSON.parse(await redis.get(`legitmark:${key}`) ?? 'null') ?? undefined,
+ *   set: async (key, entry) => { await redis.set(`legitmark:${key}`, JSON.stringify(entry)); },
+ *   delete: async (key) => { await redis.del(`legitmark:${key}`); },
+ *   clear: async () => { await redis.del(await redis.keys('legitmark:*')); },
+ * };
+ * ```
+ */
+export interface TaxonomyCacheStorage {
+  get(key: string): TaxonomyCacheEntry | undefined | Promise<TaxonomyCacheEntry | undefined>;
+  set(key: string, entry: TaxonomyCacheEntry): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+  clear(): void | Promise<void>;
+}
+
+/**
+ * Taxonomy cache configuration.
+ *
+ * @example
+ * ```typescript
+ * const legitmark = new Legitmark('leo_xxx', {
+ *   taxonomyCache: { ttl: 6 * 60 * 60 * 1000, storage: createFileStorage('./taxonomy.json') },
+ * });
+ * ```
+ */
+export interface TaxonomyCacheOptions {
+  /**
+   * Milliseconds an entry is served without asking the API. Use `Infinity`
+   * to serve a snapshot until it is cleared.
+   * @default 3600000 (1 hour)
+   */
+  readonly ttl?: number;
+  /**
+   * Entry storage.
+   * @default createMemoryStorage()
+   */
+  readonly storage?: TaxonomyCacheStorage;
+  /**
+   * Serve an expired entry when refreshing it fails because the API is
+   * unreachable or unhealthy (network, timeout, 5xx, 429, open circuit).
+   * @default true
+   */
+  readonly staleIfError?: boolean;
+}
+
+/** Validators of the entry being revalidated */
+interface Validators {
+  readonly etag?: string;
+  readonly lastModified?: string;
+}
+
+/** Fetches a fresh entry, or resolves `undefined` when the API answers 304 Not Modified */
+type Revalidate = (validators: Validators) => Promise<TaxonomyCacheEntry | undefined>;
+
+/** Reports storage failures and stale reads without failing the call */
+type Warn = (message: string, meta?: unknown) => void;
+
+const DEFAULT_TTL_MS = 60 * 60 * 1000;
+
+/** Failures that mean the API could not answer, rather than that the request was wrong */
+const STALE_IF_ERROR_CODES: ReadonlySet<LegitmarkErrorCode> = new Set([
+  'NETWORK_ERROR',
+  'TIMEOUT_ERROR',
+  'SERVER_ERROR',
+  'RATE_LIMIT_ERROR',
+  'CIRCUIT_OPEN_ERROR',
+]);
+
+/**
+ * Opt-in cache for taxonomy responses.
+ *
+ * Pass {@link TaxonomyCacheOptions} (or `true` for an in-memory cache with
+ * a one-hour TTL) as {@link PartnerConfig.taxonomyCache}; clients derived
+ * with `withOptions()` share it. Pass a `TaxonomyCache` instance to share
+ * it with other clients or to clear it.
+ *
+ * @example
+ * ```typescript
+ * const cache = new TaxonomyCache({ storage: createFileStorage('/var/cache/legitmark.json') });
+ * const legitmark = new Legitmark('leo_xxx', { taxonomyCache: cache });
+ *
+ * // After a catalog change webhook
+ * await cache.clear();
+ * ```
+ */
+export class TaxonomyCache {
+  private readonly ttl: number;
+  private readonly storage: TaxonomyCacheStorage;
+  private readonly staleIfError: boolean;
+  /** Concurrent misses for the same key share one request */
+  private readonly loading = new Map<string, Promise<unknown>>();
+
+  /**
+   * @param options - TTL, storage and stale-if-error behavior
+   * @throws {ConfigurationError} If `ttl` is negative or not a number
+   */
+  constructor(options: TaxonomyCacheOptions = {}) {
+    const ttl = options.ttl ?? DEFAULT_TTL_MS;
+    if (typeof ttl !== 'number' || Number.isNaN(ttl) || ttl < 0) {
+      throw new ConfigurationError('taxonomyCache.ttl must be a non-negative number', [
+        'Use Infinity to serve cached entries until the cache is cleared',
+      ]);
+    }
+
+    this.ttl = ttl;
+    this.storage = options.storage ?? createMemoryStorage();
+    this.staleIfError = options.staleIfError ?? true;
+  }
+
+  /**
+   * Remove every entry, so the next call fetches from the API.
+   */
+  async clear(): Promise<void> {
+    this.loading.clear();
+    await this.storage.clear();
+  }
+
+  /**
+   * Serve a fresh entry, or revalidate and store it.
+   *
+   * @param key - Endpoint and query string
+   * @param revalidate - Fetches the entry, conditionally when validators are given
+   * @param warn - Receives storage failures and stale reads
+   * @param signal - Stops this caller waiting; the shared refresh keeps running for other callers
+   * @internal
+   */
+  async load<T>(key: string, revalidate: Revalidate, warn: Warn, signal?: AbortSignal): Promise<T> {
+    throwIfAborted(signal);
+    const entry = await this.read(key, warn);
+    if (entry && Date.now() - entry.storedAt < this.ttl) {
+      return entry.data as T;
+    }
+
+    let loading = this.loading.get(key);
+    if (!loading) {
+      loading = this.refresh(key, entry, revalidate, warn).finally(() => this.loading.delete(key));
+      this.loading.set(key, loading);
+    }
+    return raceAbort(loading as Promise<T>, signal);
+  }
+
+  private async refresh(
+    key: string,
+    entry: TaxonomyCacheEntry | undefined,
+    revalidate: Revalidate,
+    warn: Warn
+  ): Promise<unknown> {
+    let next: TaxonomyCacheEntry | undefined;
+    try {
+      next = await revalidate(entry ? { etag: entry.etag, lastModified: entry.lastModified } : {});
+    } catch (error) {
+      if (entry && this.staleIfError && error instanceof LegitmarkError && STALE_IF_ERROR_CODES.has(error.code)) {
+        warn(`Serving stale taxonomy for ${key} after ${error.code}`, { storedAt: new Date(entry.storedAt).toISOString() });
+        return entry.data;
+      }
+      throw error;
+    }
+
+    next = next ?? (entry && { ...entry, storedAt: Date.now() });
+    if (!next) {
+      throw new LegitmarkError('UNKNOWN_ERROR', `Received 304 Not Modified for ${key} without a cached entry`);
+    }
+
+    try {
+      await this.storage.set(key, next);
+    } catch (error) {
+      warn(`Failed to store taxonomy cache entry for ${key}`, error instanceof Error ? error.message : error);
+    }
+    return next.data;
+  }
+
+  private async read(key: string, warn: Warn): Promise<TaxonomyCacheEntry | undefined> {
+    try {
+      return await this.storage.get(key);
+    } catch (error) {
+      warn(`Failed to read taxonomy cache entry for ${key}`, error instanceof Error ? error.message : error);
+      return undefined;
+    }
+  }
+}
+
+/**
+ * In-memory storage, optionally seeded from a snapshot (e.g. one bundled
+ * with your app).
+ *
+ * @param snapshot - Entries to start with
+ */
+export function createMemoryStorage(snapshot?: TaxonomySnapshot): TaxonomyCacheStorage {
+  const entries = new Map<string, TaxonomyCacheEntry>(Object.entries(snapshot?.entries ?? {}));
+
+  return {
+    get: (key) => entries.get(key),
+    set: (key, entry) => {
+      entries.set(key, entry);
+    },
+    delete: (key) => {
+      entries.delete(key);
+    },
+    clear: () => {
+      entries.clear();
+    },
+  };
+}
+
+/**
+ * Storage persisted to a JSON {@link TaxonomySnapshot} file. The file is
+ * read on first use and rewritten after every change; a missing file
+ * starts an empty cache. Node.js only.
+ *
+ * @param path - Snapshot file path
+ */
+export function createFileStorage(path: string): TaxonomyCacheStorage {
+  let entries: Promise<Map<string, TaxonomyCacheEntry>> | undefined;
+  let writing: Promise<void> = Promise.resolve();
+
+  const load = (): Promise<Map<string, TaxonomyCacheEntry>> => {
+    entries ??= readSnapshot(path).then(
+      snapshot => new Map(Object.entries(snapshot?.entries ?? {})),
+      (error: unknown) => {
+        // Read the file again on the next call instead of failing forever
+        entries = undefined;
+        throw error;
+      }
+    );
+    return entries;
+  };
+
+  const persist = async (map: Map<string, TaxonomyCacheEntry>): Promise<void> => {
+    const snapshot: TaxonomySnapshot = { version: 1, entries: Object.fromEntries(map) };
+    // Writes are chained so the last change always wins
+    writing = writing.catch(() => undefined).then(() => writeSnapshot(path, snapshot));
+    return writing;
+  };
+
+  return {
+    get: async (key) => (await load()).get(key),
+    set: async (key, entry) => {
+      const map = await load();
+      map.set(key, entry);
+      await persist(map);
+    },
+    delete: async (key) => {
+      const map = await load();
+      if (map.delete(key)) {
+        await persist(map);
+      }
+    },
+    clear: async () => {
+      const map = await load();
+      map.clear();
+      await persist(map);
+    },
+  };
+}
+
+async function readSnapshot(path: string): Promise<TaxonomySnapshot | undefined> {
+  // Dynamic import avoids bundling fs for browser builds
+  const fs = await import('fs');
+  let text: string;
+  try {
+    text = await fs.promises.readFile(path, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+
+  const snapshot = JSON.parse(text) as Partial<TaxonomySnapshot>;
+  if (snapshot.version !== 1 || typeof snapshot.entries !== 'object' || snapshot.entries === null) {
+    throw new ConfigurationError(`${path} is not a taxonomy cache snapshot`, [
+      'Delete the file to start with an empty cache',
+    ]);
+  }
+  return snapshot as TaxonomySnapshot;
+}
+
+async function writeSnapshot(path: string, snapshot: TaxonomySnapshot): Promise<void> {
+  const fs = await import('fs');
+  // Write then rename, so a crash mid-write never leaves a truncated snapshot
+  const temp = `${path}.${process.pid}.tmp`;
+  await fs.promises.writeFile(temp, JSON.stringify(snapshot));
+  await fs.promises.rename(temp, path);
+}
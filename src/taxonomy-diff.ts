@@ -0,0 +1,232 @@
+/**
+ * Taxonomy Diffing
+ *
+ * Compares two catalog snapshots so a local mirror of the Legitmark
+ * taxonomy can be updated incrementally instead of rebuilt.
+ */
+
+import type { Brand, CatalogTreeResponse, Category, Type } from './types';
+
+/** One side of a comparison: a `taxonomy.getTree()` response plus, optionally, the brand list */
+export interface CatalogSnapshot {
+  readonly tree: CatalogTreeResponse;
+  /** All brands, e.g. from `taxonomy.listAllBrands().toArray()` */
+  readonly brands?: readonly Brand[];
+}
+
+/** A type together with the UUID of the category it sits under */
+export type CatalogType = Type & { readonly category: string };
+
+/** A name change */
+export interface RenamedEntry {
+  readonly uuid: string;
+  readonly from: string;
+  readonly to: string;
+}
+
+/** An `ordinal` change */
+export interface ReorderedEntry {
+  readonly uuid: string;
+  readonly name: string;
+  readonly from: number;
+  readonly to: number;
+}
+
+/** A type that now sits under a different category */
+export interface MovedType {
+  readonly uuid: string;
+  readonly name: string;
+  /** Previous category UUID */
+  readonly from: string;
+  /** New category UUID */
+  readonly to: string;
+}
+
+/** Changes to one kind of catalog entry, matched by UUID */
+export interface EntityChanges<T> {
+  readonly added: readonly T[];
+  readonly removed: readonly T[];
+  readonly renamed: readonly RenamedEntry[];
+  readonly reordered: readonly ReorderedEntry[];
+  readonly activated: readonly T[];
+  readonly deactivated: readonly T[];
+}
+
+/**
+ * A JSON-Patch-style operation (RFC 6902) against a catalog document
+ * shaped `{ categories: { [uuid]: { ...category, types: { [uuid]: type } } }, brands: { [uuid]: brand } }`.
+ *
+ * Paths address entries by UUID rather than array index, so operations
+ * stay valid regardless of ordering.
+ */
+export type TaxonomyPatchOperation =
+  | { readonly op: 'add'; readonly path: string; readonly value: Category | Type | Brand }
+  | { readonly op: 'remove'; readonly path: string }
+  | { readonly op: 'replace'; readonly path: string; readonly value: string | number | boolean }
+  | { readonly op: 'move'; readonly from: string; readonly path: string };
+
+/** Result of {@link diffTaxonomy} */
+export interface TaxonomyDiff {
+  /** Whether anything changed */
+  readonly hasChanges: boolean;
+  readonly categories: EntityChanges<Category>;
+  readonly types: EntityChanges<CatalogType> & { readonly moved: readonly MovedType[] };
+  /** Empty unless both snapshots include brands. Brands have no ordinal, so are never reordered. */
+  readonly brands: EntityChanges<Brand>;
+  /**
+   * The same changes as patch operations, ordered so they can be applied
+   * in sequence: additions (categories before their types), moves,
+   * removals (types before their category), then field replacements.
+   * Added categories are added without `types`; each type is its own `add`.
+   */
+  readonly patch: readonly TaxonomyPatchOperation[];
+}
+
+interface Entry {
+  readonly uuid: string;
+  readonly name: string;
+  readonly active: boolean;
+  readonly ordinal?: number;
+}
+
+/**
+ * Compare two catalog snapshots.
+ *
+ * Entries are matched by UUID. Renames, `ordinal` changes, `active`
+ * toggles and types moving between categories are reported; other fields
+ * (description, media) are not compared.
+ *
+ * @param previous - Snapshot from the last sync
+ * @param next - Current snapshot
+ * @returns Typed changes and the equivalent patch operations
+ *
+ * @example
+ * ```typescript
+ * const next = {
+ *   tree: await legitmark.taxonomy.getTree({ activeOnly: false }),
+ *   brands: await legitmark.taxonomy.listAllBrands().toArray(),
+ * };
+ * const diff = diffTaxonomy(lastSync, next);
+ *
+ * for (const brand of diff.brands.added) {
+ *   await db.brands.insert(brand);
+ * }
+ * await db.applyPatch(diff.patch);
+ * ```
+ */
+export function diffTaxonomy(previous: CatalogSnapshot, next: CatalogSnapshot): TaxonomyDiff {
+  const previousTypes = flattenTypes(previous.tree.data);
+  const nextTypes = flattenTypes(next.tree.data);
+  const categories = compare(previous.tree.data, next.tree.data);
+  const types = compare(previousTypes, nextTypes);
+  const brands = previous.brands && next.brands ? compare(previous.brands, next.brands) : emptyChanges<Brand>();
+
+  const previousCategoryOf = new Map(previousTypes.map(t => [t.uuid, t.category]));
+  const categoryOf = new Map(nextTypes.map(t => [t.uuid, t.category]));
+  const moved: MovedType[] = nextTypes
+    .filter(t => previousCategoryOf.has(t.uuid) && previousCategoryOf.get(t.uuid) !== t.category)
+    .map(t => ({ uuid: t.uuid, name: t.name, from: previousCategoryOf.get(t.uuid)!, to: t.category }));
+
+  const patch: TaxonomyPatchOperation[] = [
+    ...categories.added.map(c => ({ op: 'add' as const, path: categoryPath(c.uuid), value: withoutTypes(c) })),
+    ...types.added.map(t => ({ op: 'add' as const, path: typePath(t.category, t.uuid), value: withoutCategory(t) })),
+    ...moved.map(m => ({ op: 'move' as const, from: typePath(m.from, m.uuid), path: typePath(m.to, m.uuid) })),
+    ...types.removed.map(t => ({ op: 'remove' as const, path: typePath(t.category, t.uuid) })),
+    ...categories.removed.map(c => ({ op: 'remove' as const, path: categoryPath(c.uuid) })),
+    ...replacements(categories, uuid => categoryPath(uuid)),
+    ...replacements(types, uuid => typePath(categoryOf.get(uuid)!, uuid)),
+    ...brands.removed.map(b => ({ op: 'remove' as const, path: brandPath(b.uuid) })),
+    ...brands.added.map(b => ({ op: 'add' as const, path: brandPath(b.uuid), value: b })),
+    ...replacements(brands, uuid => brandPath(uuid)),
+  ];
+
+  return {
+    hasChanges: patch.length > 0,
+    categories,
+    types: { ...types, moved },
+    brands,
+    patch,
+  };
+}
+
+function compare<T extends Entry>(previous: readonly T[], next: readonly T[]): EntityChanges<T> {
+  const before = new Map(previous.map(entry => [entry.uuid, entry]));
+  const after = new Map(next.map(entry => [entry.uuid, entry]));
+  const changes = {
+    added: [] as T[],
+    removed: previous.filter(entry => !after.has(entry.uuid)),
+    renamed: [] as RenamedEntry[],
+    reordered: [] as ReorderedEntry[],
+    activated: [] as T[],
+    deactivated: [] as T[],
+  };
+
+  for (const entry of next) {
+    const old = before.get(entry.uuid);
+    if (!old) {
+      changes.added.push(entry);
+      continue;
+    }
+    if (old.name !== entry.name) {
+      changes.renamed.push({ uuid: entry.uuid, from: old.name, to: entry.name });
+    }
+    if (old.ordinal !== undefined && entry.ordinal !== undefined && old.ordinal !== entry.ordinal) {
+      changes.reordered.push({ uuid: entry.uuid, name: entry.name, from: old.ordinal, to: entry.ordinal });
+    }
+    if (old.active !== entry.active) {
+      (entry.active ? changes.activated : changes.deactivated).push(entry);
+    }
+  }
+
+  return changes;
+}
+
+function replacements<T extends Entry>(
+  changes: EntityChanges<T>,
+  pathOf: (uuid: string) => string
+): TaxonomyPatchOperation[] {
+  return [
+    ...changes.renamed.map(r => ({ op: 'replace' as const, path: `${pathOf(r.uuid)}/name`, value: r.to })),
+    ...changes.reordered.map(r => ({ op: 'replace' as const, path: `${pathOf(r.uuid)}/ordinal`, value: r.to })),
+    ...[...changes.activated, ...changes.deactivated].map(e => ({
+      op: 'replace' as const,
+      path: `${pathOf(e.uuid)}/active`,
+      value: e.active,
+    })),
+  ];
+}
+
+function flattenTypes(categories: readonly Category[]): CatalogType[] {
+  return categories.flatMap(category => (category.types ?? []).map(type => ({ ...type, category: category.uuid })));
+}
+
+function emptyChanges<T>(): EntityChanges<T> {
+  return { added: [], removed: [], renamed: [], reordered: [], activated: [], deactivated: [] };
+}
+
+function withoutTypes(category: Category): Category {
+  const { types: _types, ...rest } = category;
+  return rest;
+}
+
+function withoutCategory(type: CatalogType): Type {
+  const { category: _category, ...rest } = type;
+  return rest;
+}
+
+/** Escape a JSON Pointer segment (RFC 6901) */
+function segment(value: string): string {
+  return value.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function categoryPath(uuid: string): string {
+  return `/categories/${segment(uuid)}`;
+}
+
+function typePath(categoryUuid: string, uuid: string): string {
+  return `${categoryPath(categoryUuid)}/types/${segment(uuid)}`;
+}
+
+function brandPath(uuid: string): string {
+  return `/brands/${segment(uuid)}`;
+}
@@ -0,0 +1,188 @@
+/**
+ * Taxonomy Export
+ *
+ * Flattens the catalog (categories, types and the brands offered for each
+ * type) into spreadsheet rows, and formats it as CSV or nested JSON lines.
+ */
+
+import { ConfigurationError } from './errors';
+import type { Brand, Category, SignalOptions, Type } from './types';
+
+/** A column of the flat export */
+export type TaxonomyExportColumn =
+  | 'category_uuid'
+  | 'category_name'
+  | 'category_active'
+  | 'type_uuid'
+  | 'type_name'
+  | 'type_active'
+  | 'brand_uuid'
+  | 'brand_name'
+  | 'brand_active';
+
+/** Every export column, in default order */
+export const TAXONOMY_EXPORT_COLUMNS: readonly TaxonomyExportColumn[] = [
+  'category_uuid',
+  'category_name',
+  'category_active',
+  'type_uuid',
+  'type_name',
+  'type_active',
+  'brand_uuid',
+  'brand_name',
+  'brand_active',
+];
+
+/**
+ * One category/type/brand combination. Type and brand fields are absent
+ * for a category without types or a type without brands.
+ */
+export interface TaxonomyExportRow {
+  readonly category_uuid: string;
+  readonly category_name: string;
+  readonly category_active: boolean;
+  readonly type_uuid?: string;
+  readonly type_name?: string;
+  readonly type_active?: boolean;
+  readonly brand_uuid?: string;
+  readonly brand_name?: string;
+  readonly brand_active?: boolean;
+}
+
+/** Options for walking the taxonomy */
+export interface TaxonomyExportRowsOptions extends SignalOptions {
+  /**
+   * Only export active categories, types and brands.
+   * @default false
+   */
+  readonly activeOnly?: boolean;
+  /**
+   * Include the brands offered for each type (one request per type).
+   * @default true
+   */
+  readonly brands?: boolean;
+  /**
+   * Brand requests in flight at once.
+   * @default 4
+   */
+  readonly concurrency?: number;
+}
+
+/** Options for exporting the taxonomy as text */
+export interface TaxonomyExportOptions extends TaxonomyExportRowsOptions {
+  /**
+   * `csv` yields a header line then one line per row; `json` yields one
+   * JSON object per category (newline-delimited), with types and brands nested.
+   * @default 'csv'
+   */
+  readonly format?: 'csv' | 'json';
+  /**
+   * Columns to include, in order. For `json`, selects the fields kept at
+   * each level (`type_name` keeps `name` on types).
+   * @default TAXONOMY_EXPORT_COLUMNS
+   */
+  readonly columns?: readonly TaxonomyExportColumn[];
+  /**
+   * For `csv`, prefix values starting with `=`, `+`, `-`, `@`, tab or
+   * carriage return with `'`, so spreadsheets show them as text instead
+   * of evaluating them as formulas.
+   * @default true
+   */
+  readonly escapeFormulas?: boolean;
+}
+
+/**
+ * A category with its types and, when requested, each type's brands.
+ * @internal
+ */
+export interface ExportedCategory {
+  readonly category: Category;
+  readonly types: readonly { readonly type: Type; readonly brands?: readonly Brand[] }[];
+}
+
+/**
+ * Flatten one category into rows.
+ * @internal
+ */
+export function toExportRows({ category, types }: ExportedCategory): TaxonomyExportRow[] {
+  const categoryFields = { category_uuid: category.uuid, category_name: category.name, category_active: category.active };
+  if (types.length === 0) {
+    return [categoryFields];
+  }
+
+  return types.flatMap(({ type, brands }) => {
+    const typeFields = { ...categoryFields, type_uuid: type.uuid, type_name: type.name, type_active: type.active };
+    if (!brands || brands.length === 0) {
+      return [typeFields];
+    }
+    return brands.map(brand => ({ ...typeFields, brand_uuid: brand.uuid, brand_name: brand.name, brand_active: brand.active }));
+  });
+}
+
+/**
+ * Validate and default the selected columns.
+ * @internal
+ */
+export function resolveExportColumns(columns?: readonly TaxonomyExportColumn[]): readonly TaxonomyExportColumn[] {
+  if (columns === undefined) {
+    return TAXONOMY_EXPORT_COLUMNS;
+  }
+
+  const unknown = columns.filter(column => !TAXONOMY_EXPORT_COLUMNS.includes(column));
+  if (columns.length === 0 || unknown.length > 0) {
+    throw new ConfigurationError(
+      columns.length === 0 ? 'Export columns must not be empty' : `Unknown export columns: ${unknown.join(', ')}`,
+      [`Choose from ${TAXONOMY_EXPORT_COLUMNS.join(', ')}`]
+    );
+  }
+  return columns;
+}
+
+/**
+ * Format values as one CSV line (RFC 4180), newline included.
+ * @internal
+ */
+export function toCsvLine(values: readonly unknown[], escapeFormulas = true): string {
+  return `${values.map(value => csvField(value, escapeFormulas)).join(',')}\r\n`;
+}
+
+/**
+ * Format one category as a nested JSON line, newline included.
+ * @internal
+ */
+export function toJsonLine({ category, types }: ExportedCategory, columns: readonly TaxonomyExportColumn[]): string {
+  const nested = {
+    ...pick(category, 'category_', columns),
+    types: types.map(({ type, brands }) => ({
+      ...pick(type, 'type_', columns),
+      ...(brands && { brands: brands.map(brand => pick(brand, 'brand_', columns)) }),
+    })),
+  };
+  return `${JSON.stringify(nested)}\n`;
+}
+
+function pick(
+  entry: Category | Type | Brand,
+  prefix: string,
+  columns: readonly TaxonomyExportColumn[]
+): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+  for (const column of columns) {
+    if (column.startsWith(prefix)) {
+      const field = column.slice(prefix.length) as 'uuid' | 'name' | 'active';
+      fields[field] = entry[field];
+    }
+  }
+  return fields;
+}
+
+/** Leading characters that make spreadsheets evaluate a cell as a formula */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvField(value: unknown, escapeFormulas: boolean): string {
+  let text = value === undefined || value === null ? '' : String(value);
+  if (escapeFormulas && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
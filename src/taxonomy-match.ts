@@ -0,0 +1,149 @@
+/**
+ * Taxonomy Name Matching
+ *
+ * Case- and accent-insensitive fuzzy matching of free-text names against
+ * catalog entries, used by `taxonomy.resolve()`.
+ */
+
+/** The taxonomy levels that make up an SR item */
+export type TaxonomyLevel = 'category' | 'type' | 'brand';
+
+/** A catalog entry scored against a name */
+export interface TaxonomyCandidate {
+  readonly uuid: string;
+  readonly name: string;
+  /** 1 for an exact (normalized) match, down to 0 for no similarity */
+  readonly confidence: number;
+}
+
+/** A catalog entry chosen for a name */
+export interface TaxonomyMatch<T> extends TaxonomyCandidate {
+  /** The matched category, type or brand */
+  readonly value: T;
+}
+
+/** Options controlling when a name counts as matched */
+export interface MatchOptions {
+  /**
+   * Lowest confidence (0–1) accepted as a match.
+   * @default 0.6
+   */
+  readonly minConfidence?: number;
+  /**
+   * When the runner-up scores within this much of the best match, the
+   * name is ambiguous. Exact matches are never ambiguous with inexact ones.
+   * @default 0.05
+   */
+  readonly ambiguityMargin?: number;
+}
+
+/** Outcome of matching one name */
+export type MatchResult<T> =
+  | { readonly status: 'matched'; readonly match: TaxonomyMatch<T> }
+  | { readonly status: 'ambiguous' | 'not_found'; readonly candidates: readonly TaxonomyCandidate[] };
+
+const DEFAULT_MIN_CONFIDENCE = 0.6;
+const DEFAULT_AMBIGUITY_MARGIN = 0.05;
+/** Candidates reported on failure */
+const MAX_CANDIDATES = 5;
+/** Score when every word of one name appears in the other ("Jordan" → "Air Jordan") */
+const CONTAINMENT_SCORE = 0.8;
+/** Score when names only differ in spacing or punctuation ("T-Shirts" → "tshirts") */
+const COMPACT_SCORE = 0.97;
+
+/**
+ * Lower-case, strip accents and punctuation, and collapse whitespace.
+ * Letters and digits of every script are kept.
+ * @internal
+ */
+export function normalizeName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^\p{L}\p{M}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * Similarity of two normalized names, from 0 to 1.
+ * @internal
+ */
+export function scoreName(query: string, name: string): number {
+  const compactQuery = query.replace(/ /g, '');
+  const compactName = name.replace(/ /g, '');
+  // Nothing left to compare, e.g. a name made only of punctuation
+  if (compactQuery.length === 0 || compactName.length === 0) {
+    return 0;
+  }
+  if (query === name) {
+    return 1;
+  }
+  if (compactQuery === compactName) {
+    return COMPACT_SCORE;
+  }
+
+  const distance = levenshtein(compactQuery, compactName);
+  const editScore = 1 - distance / Math.max(compactQuery.length, compactName.length);
+
+  const queryWords = query.split(' ');
+  const nameWords = new Set(name.split(' '));
+  const contained = queryWords.every(word => nameWords.has(word))
+    || [...nameWords].every(word => queryWords.includes(word));
+
+  return Math.max(editScore, contained ? CONTAINMENT_SCORE : 0);
+}
+
+/**
+ * Pick the entry best matching `query`.
+ * @internal
+ */
+export function matchName<T extends { readonly uuid: string; readonly name: string }>(
+  query: string,
+  entries: readonly T[],
+  options: MatchOptions = {}
+): MatchResult<T> {
+  const minConfidence = options.minConfidence ?? DEFAULT_MIN_CONFIDENCE;
+  const margin = options.ambiguityMargin ?? DEFAULT_AMBIGUITY_MARGIN;
+  const normalized = normalizeName(query);
+
+  const scored = entries
+    .map(value => ({ value, confidence: round(scoreName(normalized, normalizeName(value.name))) }))
+    .sort((a, b) => b.confidence - a.confidence);
+  const toCandidate = ({ value, confidence }: { value: T; confidence: number }): TaxonomyCandidate =>
+    ({ uuid: value.uuid, name: value.name, confidence });
+
+  const [best, runnerUp] = scored;
+  if (!best || best.confidence < minConfidence) {
+    return { status: 'not_found', candidates: scored.slice(0, MAX_CANDIDATES).map(toCandidate) };
+  }
+
+  const tied = runnerUp !== undefined
+    && runnerUp.confidence >= minConfidence
+    && best.confidence - runnerUp.confidence <= margin
+    && (best.confidence < 1 || runnerUp.confidence === 1);
+  if (tied) {
+    const close = scored.filter(s => s.confidence >= minConfidence && best.confidence - s.confidence <= margin);
+    return { status: 'ambiguous', candidates: close.slice(0, MAX_CANDIDATES).map(toCandidate) };
+  }
+
+  return { status: 'matched', match: { ...toCandidate(best), value: best.value } };
+}
+
+function round(score: number): number {
+  return Math.round(score * 1000) / 1000;
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
@@ -0,0 +1,238 @@
+/**
+ * OpenTelemetry Instrumentation
+ *
+ * Optional tracing and metrics. Pass a tracer and/or meter from
+ * `@opentelemetry/api` via {@link PartnerConfig.telemetry}; the SDK never
+ * imports the package itself, so nothing is loaded when telemetry is off.
+ *
+ * The interfaces below are the subset of the OpenTelemetry API the SDK
+ * calls. `Tracer` and `Meter` from `@opentelemetry/api` satisfy them.
+ */
+
+import { LegitmarkError } from './errors';
+import type { RequestTarget } from './middleware';
+
+/** Span/metric attributes */
+export type TelemetryAttributes = Record<string, string | number | boolean | undefined>;
+
+/** Subset of the OpenTelemetry `Span` used by the SDK */
+export interface TelemetrySpan {
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  addEvent(name: string, attributes?: TelemetryAttributes): unknown;
+  recordException(exception: Error): void;
+  end(): void;
+}
+
+/** Subset of the OpenTelemetry `SpanOptions` used by the SDK */
+export interface TelemetrySpanOptions {
+  kind?: number;
+  attributes?: TelemetryAttributes;
+}
+
+/** Subset of the OpenTelemetry `Tracer` used by the SDK */
+export interface TelemetryTracer {
+  startActiveSpan<F extends (span: TelemetrySpan) => unknown>(
+    name: string,
+    options: TelemetrySpanOptions,
+    fn: F
+  ): ReturnType<F>;
+}
+
+/** Subset of the OpenTelemetry `Meter` used by the SDK */
+export interface TelemetryMeter {
+  createHistogram(
+    name: string,
+    options?: { description?: string; unit?: string }
+  ): { record(value: number, attributes?: TelemetryAttributes): void };
+  createCounter(
+    name: string,
+    options?: { description?: string; unit?: string }
+  ): { add(value: number, attributes?: TelemetryAttributes): void };
+}
+
+/**
+ * OpenTelemetry integration options.
+ *
+ * @example
+ * ```typescript
+ * import { trace, metrics } from '@opentelemetry/api';
+ *
+ * const legitmark = new Legitmark('leo_xxx', {
+ *   telemetry: {
+ *     tracer: trace.getTracer('legitmark'),
+ *     meter: metrics.getMeter('legitmark'),
+ *   },
+ * });
+ * ```
+ */
+export interface TelemetryOptions {
+  /** Emits a client span per request and a span per workflow step */
+  readonly tracer?: TelemetryTracer;
+  /** Records request duration and error metrics */
+  readonly meter?: TelemetryMeter;
+}
+
+/**
+ * Details of one logical request (all attempts).
+ * @internal
+ */
+export interface RequestSpanInfo {
+  readonly method: string;
+  readonly target: RequestTarget;
+  readonly endpoint: string;
+  readonly requestId: string;
+  readonly serverAddress?: string;
+}
+
+/**
+ * Outcome filled in by the instrumented request.
+ * @internal
+ */
+export interface RequestOutcome {
+  status?: number;
+  attempts: number;
+  serverRequestId?: string;
+}
+
+/** @internal */
+export interface Telemetry {
+  /** Trace and measure one logical request, including retries. */
+  request<T>(info: RequestSpanInfo, fn: (outcome: RequestOutcome, span?: TelemetrySpan) => Promise<T>): Promise<T>;
+  /** Run `fn` inside an internal span that parents any requests it makes. */
+  span<T>(name: string, attributes: TelemetryAttributes, fn: () => Promise<T>): Promise<T>;
+}
+
+/** OpenTelemetry `SpanKind.INTERNAL` */
+const SPAN_KIND_INTERNAL = 0;
+/** OpenTelemetry `SpanKind.CLIENT` */
+const SPAN_KIND_CLIENT = 2;
+/** OpenTelemetry `SpanStatusCode.ERROR` */
+const SPAN_STATUS_ERROR = 2;
+
+const UUID_SEGMENT = /\/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}(?=\/|$)/gi;
+
+/** Metric names */
+export const TELEMETRY_METRICS = {
+  REQUEST_DURATION: 'legitmark.client.request.duration',
+  REQUEST_ERRORS: 'legitmark.client.request.errors',
+} as const;
+
+/**
+ * Create the client's instrumentation. Without a tracer or meter every
+ * call passes straight through.
+ *
+ * @internal
+ */
+export function createTelemetry(options: TelemetryOptions = {}): Telemetry {
+  const { tracer, meter } = options;
+  const duration = meter?.createHistogram(TELEMETRY_METRICS.REQUEST_DURATION, {
+    description: 'Duration of Legitmark API requests, including retries',
+    unit: 's',
+  });
+  const errors = meter?.createCounter(TELEMETRY_METRICS.REQUEST_ERRORS, {
+    description: 'Legitmark API requests that failed',
+  });
+
+  return {
+    async request<T>(
+      info: RequestSpanInfo,
+      fn: (outcome: RequestOutcome, span?: TelemetrySpan) => Promise<T>
+    ): Promise<T> {
+      const outcome: RequestOutcome = { attempts: 0 };
+      const route = toRoute(info);
+      const started = Date.now();
+
+      const finish = (span: TelemetrySpan | undefined, error?: unknown): void => {
+        const code = error instanceof LegitmarkError ? error.code : error ? 'UNKNOWN_ERROR' : undefined;
+        const attributes: TelemetryAttributes = {
+          'http.request.method': info.method,
+          'http.response.status_code': outcome.status,
+          'legitmark.target': info.target,
+          'legitmark.route': route,
+          'legitmark.error_code': code,
+        };
+        duration?.record((Date.now() - started) / 1000, attributes);
+        if (error) {
+          errors?.add(1, attributes);
+        }
+
+        if (!span) return;
+        if (outcome.status !== undefined) span.setAttribute('http.response.status_code', outcome.status);
+        if (outcome.serverRequestId) span.setAttribute('legitmark.server_request_id', outcome.serverRequestId);
+        span.setAttribute('legitmark.attempts', outcome.attempts);
+        if (code) {
+          span.setAttribute('legitmark.error_code', code);
+          span.setAttribute('error.type', code);
+          if (error instanceof Error) {
+            span.recordException(error);
+          }
+          span.setStatus({ code: SPAN_STATUS_ERROR, message: error instanceof Error ? error.message : String(error) });
+        }
+        span.end();
+      };
+
+      const run = async (span?: TelemetrySpan): Promise<T> => {
+        try {
+          const result = await fn(outcome, span);
+          finish(span);
+          return result;
+        } catch (error) {
+          finish(span, error);
+          throw error;
+        }
+      };
+
+      if (!tracer) {
+        return run();
+      }
+
+      return tracer.startActiveSpan(
+        `${info.method} ${route}`,
+        {
+          kind: SPAN_KIND_CLIENT,
+          attributes: {
+            'http.request.method': info.method,
+            'server.address': info.serverAddress,
+            'legitmark.target': info.target,
+            // Signed upload URLs carry credentials in the query string
+            'legitmark.endpoint': info.endpoint.split('?')[0],
+            'legitmark.request_id': info.requestId,
+          },
+        },
+        run
+      );
+    },
+
+    async span<T>(name: string, attributes: TelemetryAttributes, fn: () => Promise<T>): Promise<T> {
+      if (!tracer) {
+        return fn();
+      }
+
+      return tracer.startActiveSpan(name, { kind: SPAN_KIND_INTERNAL, attributes }, async (span) => {
+        try {
+          return await fn();
+        } catch (error) {
+          if (error instanceof Error) {
+            span.recordException(error);
+          }
+          span.setStatus({ code: SPAN_STATUS_ERROR, message: error instanceof Error ? error.message : String(error) });
+          throw error;
+        } finally {
+          span.end();
+        }
+      });
+    },
+  };
+}
+
+/**
+ * Low-cardinality route for span names and metric attributes: UUID path
+ * segments become `{uuid}`, and signed upload URLs collapse to `upload`.
+ */
+function toRoute(info: RequestSpanInfo): string {
+  if (info.target === 'upload') {
+    return 'upload';
+  }
+  return info.endpoint.replace(UUID_SEGMENT, '/{uuid}');
+}
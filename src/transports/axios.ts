@@ -0,0 +1,111 @@
+/**
+ * Axios Transport
+ *
+ * The default transport. Sends requests through an axios instance and
+ * normalizes axios errors into {@link TransportError}. axios is an optional
+ * peer dependency, loaded on the first request, so apps using the fetch
+ * transport never install or bundle it.
+ */
+
+import type { AxiosInstance, AxiosStatic } from 'axios';
+
+import type { Transport, TransportRequest, TransportResponse } from './types';
+import { ConfigurationError, TransportError } from '../errors';
+
+const AXIOS_TIMEOUT_CODES = new Set(['ECONNABORTED', 'ETIMEDOUT']);
+
+let loading: Promise<AxiosStatic> | undefined;
+
+/**
+ * Create a transport backed by axios.
+ *
+ * @param instance - Axios instance to use (default: a fresh `axios.create()`)
+ * @returns Transport for {@link PartnerConfig.transport}
+ *
+ * @example
+ * ```typescript
+ * const client = new PartnerClient({
+ *   apiKey: 'leo_xxx',
+ *   transport: createAxiosTransport(myAxiosInstance),
+ * });
+ * ```
+ */
+export function createAxiosTransport(instance?: AxiosInstance): Transport {
+  return {
+    async request<T>(request: TransportRequest): Promise<TransportResponse<T>> {
+      const axios = await loadAxios();
+      instance ??= axios.create();
+      try {
+        const response = await instance.request<T>({
+          method: request.method,
+          url: request.url,
+          headers: request.headers,
+          data: request.body,
+          timeout: request.timeout,
+          signal: request.signal,
+        });
+        return {
+          status: response.status,
+          headers: normalizeHeaders(response.headers),
+          data: response.data,
+        };
+      } catch (error) {
+        throw toTransportError(axios, error);
+      }
+    },
+  };
+}
+
+/**
+ * Import axios once per process.
+ * @throws {ConfigurationError} If axios is not installed
+ * @internal
+ */
+export function loadAxios(): Promise<AxiosStatic> {
+  loading ??= import('axios').then(
+    module => module.default,
+    () => {
+      loading = undefined;
+      throw new ConfigurationError('The axios transport requires the axios package', [
+        'Install it: npm install axios',
+        "Or use the built-in fetch transport: transport: 'fetch'",
+      ]);
+    }
+  );
+  return loading;
+}
+
+function toTransportError(axios: AxiosStatic, error: unknown): unknown {
+  if (axios.isCancel(error)) {
+    return new TransportError('aborted', 'Request aborted', { cause: error });
+  }
+
+  if (!axios.isAxiosError(error)) {
+    return error;
+  }
+
+  if (error.response) {
+    return new TransportError('http', error.message, {
+      status: error.response.status,
+      headers: normalizeHeaders(error.response.headers),
+      data: error.response.data,
+      cause: error,
+    });
+  }
+
+  const kind = error.code && AXIOS_TIMEOUT_CODES.has(error.code) ? 'timeout' : 'network';
+  return new TransportError(kind, error.message, { cause: error });
+}
+
+function normalizeHeaders(headers: unknown): Record<string, string> {
+  const result: Record<string, string> = {};
+  if (!headers || typeof headers !== 'object') {
+    return result;
+  }
+  for (const [name, value] of Object.entries(headers as Record<string, unknown>)) {
+    if (value !== undefined && value !== null) {
+      result[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : String(value);
+    }
+  }
+  return result;
+}
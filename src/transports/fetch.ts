@@ -0,0 +1,120 @@
+/**
+ * Fetch Transport
+ *
+ * Sends requests through the WHATWG `fetch` API. Use this on runtimes
+ * where axios is unavailable or unwanted (Cloudflare Workers, Deno, Bun).
+ */
+
+import type { Transport, TransportRequest, TransportResponse } from './types';
+import { TransportError } from '../errors';
+
+/** Options for the fetch transport */
+export interface FetchTransportOptions {
+  /** Fetch implementation to use (default: `globalThis.fetch`) */
+  readonly fetch?: typeof fetch;
+}
+
+/**
+ * Create a transport backed by `fetch`.
+ *
+ * @param options - Transport options
+ * @returns Transport for {@link PartnerConfig.transport}
+ *
+ * @example
+ * ```typescript
+ * const client = new PartnerClient({
+ *   apiKey: env.LEGITMARK_API_KEY,
+ *   transport: 'fetch',
+ * });
+ * ```
+ */
+export function createFetchTransport(options: FetchTransportOptions = {}): Transport {
+  return {
+    async request<T>(request: TransportRequest): Promise<TransportResponse<T>> {
+      const fetchImpl = options.fetch ?? globalThis.fetch;
+
+      if (request.signal?.aborted) {
+        throw new TransportError('aborted', 'Request aborted');
+      }
+
+      const controller = new AbortController();
+      let timedOut = false;
+      const timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, request.timeout);
+      const onAbort = (): void => controller.abort();
+      request.signal?.addEventListener('abort', onAbort, { once: true });
+      const cleanup = (): void => {
+        clearTimeout(timer);
+        request.signal?.removeEventListener('abort', onAbort);
+      };
+
+      // The timer and abort listener stay armed until the body has been read
+      let response: Response;
+      let data: unknown;
+      try {
+        response = await fetchImpl(request.url, {
+          method: request.method,
+          headers: request.headers,
+          body: serializeBody(request.body),
+          signal: controller.signal,
+        });
+        data = await parseBody(response);
+      } catch (error) {
+        if (timedOut) {
+          throw new TransportError('timeout', `timeout of ${request.timeout}ms exceeded`, { cause: error });
+        }
+        if (request.signal?.aborted) {
+          throw new TransportError('aborted', 'Request aborted', { cause: error });
+        }
+        throw new TransportError('network', error instanceof Error ? error.message : String(error), {
+          cause: error,
+        });
+      } finally {
+        cleanup();
+      }
+
+      const headers: Record<string, string> = {};
+      response.headers.forEach((value, name) => {
+        headers[name.toLowerCase()] = value;
+      });
+
+      if (!response.ok) {
+        throw new TransportError('http', `Request failed with status code ${response.status}`, {
+          status: response.status,
+          headers,
+          data,
+        });
+      }
+
+      return { status: response.status, headers, data: data as T };
+    },
+  };
+}
+
+function serializeBody(body: unknown): string | Uint8Array | undefined {
+  if (body === undefined) {
+    return undefined;
+  }
+  if (typeof body === 'string' || body instanceof Uint8Array) {
+    return body;
+  }
+  return JSON.stringify(body);
+}
+
+async function parseBody(response: Response): Promise<unknown> {
+  const text = await response.text();
+  if (!text) {
+    return undefined;
+  }
+  const contentType = response.headers.get('content-type') ?? '';
+  if (contentType.includes('json')) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+  return text;
+}
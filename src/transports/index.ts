@@ -0,0 +1,11 @@
+export type {
+  HttpMethod,
+  Transport,
+  TransportName,
+  TransportRequest,
+  TransportResponse,
+  TransportErrorKind,
+} from './types';
+
+export { createAxiosTransport, loadAxios } from './axios';
+export { createFetchTransport, type FetchTransportOptions } from './fetch';
@@ -0,0 +1,77 @@
+/**
+ * HTTP Transport Types
+ *
+ * The contract between {@link PartnerClient} and the HTTP library that
+ * actually sends requests. The SDK ships an axios and a fetch transport;
+ * implement {@link Transport} to plug in anything else.
+ */
+
+/** HTTP methods used by the SDK */
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * A fully resolved outgoing request.
+ *
+ * The client has already applied the base URL, query string and default
+ * headers, so `url` is absolute and `headers` is final.
+ */
+export interface TransportRequest {
+  readonly method: HttpMethod;
+  /** Absolute request URL including query string */
+  readonly url: string;
+  readonly headers: Readonly<Record<string, string>>;
+  /** Request body. Buffers and strings are sent as-is, anything else as JSON. */
+  readonly body?: unknown;
+  /** Timeout in milliseconds */
+  readonly timeout: number;
+  /** Cancels the request when aborted */
+  readonly signal?: AbortSignal;
+}
+
+/**
+ * A successful (2xx) response.
+ */
+export interface TransportResponse<T = unknown> {
+  readonly status: number;
+  /** Response headers with lower-cased names */
+  readonly headers: Readonly<Record<string, string>>;
+  /** Parsed JSON body, raw text, or undefined when empty */
+  readonly data: T;
+}
+
+/**
+ * Sends HTTP requests on behalf of the client.
+ *
+ * Implementations must resolve with a {@link TransportResponse} for 2xx
+ * responses and reject with a {@link TransportError} otherwise, so the
+ * client can map every failure to the same {@link LegitmarkErrorCode}.
+ *
+ * @example
+ * ```typescript
+ * const transport: Transport = {
+ *   async request(req) {
+ *     const res = await myHttpLib(req.method, req.url, req.headers, req.body);
+ *     if (res.status >= 400) {
+ *       throw new TransportError('http', `HTTP ${res.status}`, { status: res.status, data: res.json });
+ *     }
+ *     return { status: res.status, headers: res.headers, data: res.json };
+ *   },
+ * };
+ * ```
+ */
+export interface Transport {
+  request<T>(request: TransportRequest): Promise<TransportResponse<T>>;
+}
+
+/** Built-in transport identifiers accepted by {@link PartnerConfig.transport} */
+export type TransportName = 'axios' | 'fetch';
+
+/**
+ * Failure categories reported by a transport.
+ *
+ * - `http` — the server responded with a non-2xx status
+ * - `timeout` — no response within the configured timeout
+ * - `network` — connection failed before a response was received
+ * - `aborted` — the request's `signal` was aborted
+ */
+export type TransportErrorKind = 'http' | 'timeout' | 'network' | 'aborted';
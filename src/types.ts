@@ -1,3 +1,13 @@
+import type { Transport, TransportName } from './transports/types';
+import type { LegitmarkEnvironment } from './client';
+import type { RetryPolicy } from './retry';
+import type { Logger, LogLevel, LogFormat } from './logger';
+import type { Middleware } from './middleware';
+import type { TelemetryOptions } from './telemetry';
+import type { RateLimiter, RateLimitOptions } from './rate-limit';
+import type { CircuitBreaker, CircuitBreakerOptions } from './circuit-breaker';
+import type { TaxonomyCache, TaxonomyCacheOptions } from './taxonomy-cache';
+
 /**
  * Configuration options for the Partner SDK client.
  * 
@@ -31,9 +41,115 @@ export interface PartnerConfig {
 
   /** 
    * Enable verbose debug logging to console.
+   * Shorthand for `logLevel: 'debug'`; ignored when `logLevel` is set.
    * @default false
    */
   readonly debug?: boolean;
+
+  /**
+   * Logger receiving SDK log records instead of `console`.
+   * Messages and payloads are redacted before they are passed on.
+   */
+  readonly logger?: Logger;
+
+  /**
+   * Minimum level to log. `'silent'` disables logging entirely.
+   * @default 'debug' when `debug` is true, otherwise 'info'
+   */
+  readonly logLevel?: LogLevel;
+
+  /**
+   * Output format of the built-in console logger. `'json'` writes one
+   * JSON object per line. Ignored when `logger` is set.
+   * @default 'text'
+   */
+  readonly logFormat?: LogFormat;
+
+  /**
+   * Extra field names whose values are replaced with `[REDACTED]` in log
+   * payloads, matched case-insensitively at any depth. The API key,
+   * `Authorization` headers and signed upload URLs are always redacted.
+   * @example ['email', 'external_id']
+   */
+  readonly redact?: readonly string[];
+
+  /**
+   * HTTP transport used for all requests.
+   * Pass `'fetch'` on runtimes without axios (Cloudflare Workers, Deno, Bun),
+   * or a custom {@link Transport} implementation. `'axios'` requires the
+   * optional `axios` peer dependency.
+   * @default 'axios' when axios is installed, otherwise 'fetch'
+   */
+  readonly transport?: Transport | TransportName;
+
+  /**
+   * Named environment selecting the default platform and asset URLs.
+   * `baseUrl` and `assetUrl` override the environment's URLs individually.
+   * @default 'production'
+   */
+  readonly environment?: LegitmarkEnvironment;
+
+  /**
+   * Platform API base URL.
+   * Falls back to the `LEGITMARK_BASE_URL` environment variable when no
+   * `environment` is set, then to the environment's URL.
+   * @example 'http://localhost:4010'
+   */
+  readonly baseUrl?: string;
+
+  /**
+   * Asset (media upload) API base URL.
+   * @default The environment's asset URL
+   */
+  readonly assetUrl?: string;
+
+  /**
+   * Automatically retry failed idempotent requests.
+   * Pass `true` for the default policy or a {@link RetryPolicy} to tune it.
+   * Non-idempotent POSTs (e.g. `sr.create`) are only retried when they
+   * carry an idempotency key.
+   * @default false
+   */
+  readonly retry?: RetryPolicy | boolean;
+
+  /**
+   * Middleware wrapping every request, in order. More can be added later
+   * with {@link PartnerClient.use}.
+   */
+  readonly middleware?: readonly Middleware[];
+
+  /**
+   * OpenTelemetry tracer and meter from `@opentelemetry/api`. When set,
+   * every request emits a client span and duration/error metrics, and
+   * {@link WorkflowRunner} steps emit parent spans.
+   */
+  readonly telemetry?: TelemetryOptions;
+
+  /**
+   * Client-side rate limiting with separate platform and asset budgets.
+   * Clients derived with `withOptions()` share the limiter; pass a
+   * {@link RateLimiter} instance to share it with other clients too.
+   */
+  readonly rateLimit?: RateLimitOptions | RateLimiter;
+
+  /**
+   * Fail fast with `CIRCUIT_OPEN_ERROR` while the API is failing.
+   * Pass `true` for the defaults, {@link CircuitBreakerOptions} to tune
+   * thresholds, or a {@link CircuitBreaker} to share or inspect it.
+   * Clients derived with `withOptions()` share the breaker.
+   * @default false
+   */
+  readonly circuitBreaker?: CircuitBreakerOptions | CircuitBreaker | boolean;
+
+  /**
+   * Cache taxonomy responses (`getTree`, `getCategories`, `getBrands`,
+   * `getBrandsForType`). Pass `true` for an in-memory cache with a one-hour
+   * TTL, {@link TaxonomyCacheOptions} for a custom TTL or storage, or a
+   * {@link TaxonomyCache} to share or clear it. Clients derived with
+   * `withOptions()` share the cache.
+   * @default false
+   */
+  readonly taxonomyCache?: TaxonomyCacheOptions | TaxonomyCache | boolean;
 }
 
 /**
@@ -50,6 +166,32 @@ export interface RequestOptions {
    * Override the request timeout for this request.
    */
   readonly timeout?: number;
+
+  /**
+   * Override the retry policy for this request (`false` disables retries).
+   */
+  readonly retry?: RetryPolicy | boolean;
+
+  /**
+   * Abort every call made through this client when the signal fires.
+   * A `signal` passed to an individual method takes precedence.
+   */
+  readonly signal?: AbortSignal;
+}
+
+/**
+ * Cancellation option accepted by every resource method.
+ *
+ * @example
+ * ```typescript
+ * const controller = new AbortController();
+ * req.on('close', () => controller.abort());
+ * await client.sr.waitForRequirements(uuid, { signal: controller.signal });
+ * ```
+ */
+export interface SignalOptions {
+  /** Aborts the call, rejecting with an `ABORT_ERROR` */
+  readonly signal?: AbortSignal;
 }
 
 /**
@@ -184,7 +326,7 @@ export interface CatalogTreeResponse {
 /**
  * Options for fetching the taxonomy tree.
  */
-export interface GetTreeOptions {
+export interface GetTreeOptions extends SignalOptions {
   /** Only return active categories and types (default: true) */
   readonly activeOnly?: boolean;
 }
@@ -226,7 +368,7 @@ export type SRSupplementState =
  * | COMPLETE | REJECTED | Counterfeit |
  * | CANCELLED | - | Request cancelled |
  * 
- * @see {@link https://docs.legitmark.com/partner/service-request-states} for complete documentation
+ * @see {@link https://docs.legitmark.com/webhook-reference/events#state_change} for state change events
  * 
  * @example
  * ```typescript
@@ -245,6 +387,15 @@ export interface SRState {
   readonly supplement: SRSupplementState | null;
 }
 
+/**
+ * A state this SDK version does not know, such as one added to the API
+ * later. Webhook events can carry one; narrow with `isKnownState()`.
+ */
+export interface UnknownSRState {
+  readonly primary: string;
+  readonly supplement: string | null;
+}
+
 /**
  * Summary information about the item being authenticated.
  */
@@ -335,7 +486,7 @@ export interface ServiceRequest {
   readonly legacy_id?: string;
   /** Partner's external reference ID */
   readonly external_id?: string;
-  /** Current tab/queue */
+  /** Current tab/queue name (the tab details when tab=true) */
   readonly tab: string;
   /** Source platform */
   readonly source?: string;
@@ -353,9 +504,9 @@ export interface ServiceRequest {
     readonly optional?: readonly Side[];
     readonly progress?: ProgressData;
   };
-  /** Associated user UUID */
+  /** Associated user UUID (the user details when user=true) */
   readonly user?: string;
-  /** Associated service UUID */
+  /** Associated service UUID (the service details when service=true) */
   readonly service?: string;
   /** Creation timestamp (ISO 8601) */
   readonly created_at: string;
@@ -363,6 +514,137 @@ export interface ServiceRequest {
   readonly updated_at: string;
   /** When SR was submitted from draft (ISO 8601) */
   readonly drafted_at?: string;
+  /** Authentication verdict (populated when outcome=true) */
+  readonly outcome?: SROutcome | null;
+  /** Workflow stages (populated when stages=true) */
+  readonly stages?: readonly SRStage[];
+  /** Risk assessment (populated when risk=true) */
+  readonly risk?: SRRisk | null;
+  /** Assigned authenticators (populated when authenticators=true) */
+  readonly authenticators?: readonly SRAuthenticator[];
+  /** Workflows the SR runs through (populated when workflows=true) */
+  readonly workflows?: readonly SRWorkflow[];
+  /** Partner that owns the SR (populated when partner=true) */
+  readonly partner?: SRPartner;
+}
+
+/**
+ * Authentication verdict of a Service Request.
+ * `null` on the SR until authentication is complete.
+ */
+export interface SROutcome {
+  /** `APPROVED` when the item is authentic, `REJECTED` when it is not */
+  readonly verdict: 'APPROVED' | 'REJECTED';
+  /** When the verdict was reached (ISO 8601) */
+  readonly decided_at: string;
+  /** Authenticator's notes for the partner */
+  readonly notes?: string;
+  /** URL of the authentication certificate (authentic items only) */
+  readonly certificate_url?: string;
+}
+
+/**
+ * A stage of the authentication workflow.
+ */
+export interface SRStage {
+  readonly uuid: string;
+  readonly name: string;
+  /** Display order (lower = first) */
+  readonly ordinal: number;
+  readonly status: 'PENDING' | 'ACTIVE' | 'COMPLETE' | 'SKIPPED';
+  /** When the stage started (ISO 8601) */
+  readonly started_at?: string;
+  /** When the stage finished (ISO 8601) */
+  readonly completed_at?: string;
+}
+
+/**
+ * A signal that contributed to an SR's risk assessment.
+ */
+export interface SRRiskSignal {
+  /** Machine-readable signal code */
+  readonly code: string;
+  /** Human-readable explanation */
+  readonly message: string;
+}
+
+/**
+ * Risk assessment of a Service Request.
+ */
+export interface SRRisk {
+  /** Risk score from 0 (lowest) to 1 (highest) */
+  readonly score: number;
+  readonly level: 'LOW' | 'MEDIUM' | 'HIGH';
+  /** What drove the score */
+  readonly signals: readonly SRRiskSignal[];
+}
+
+/**
+ * An authenticator working on a Service Request.
+ */
+export interface SRAuthenticator {
+  readonly uuid: string;
+  /** Display name */
+  readonly name: string;
+  /** `PRIMARY` authenticates the item; `REVIEWER` checks the verdict */
+  readonly role: 'PRIMARY' | 'REVIEWER';
+  /** When the authenticator was assigned (ISO 8601) */
+  readonly assigned_at: string;
+  /** When the authenticator finished (ISO 8601) */
+  readonly completed_at?: string;
+}
+
+/**
+ * The user an SR belongs to, included with `user: true`.
+ */
+export interface SRUser {
+  readonly uuid: string;
+  /** Display name */
+  readonly name?: string;
+  readonly email?: string;
+}
+
+/**
+ * The tab/queue an SR is in, included with `tab: true`.
+ */
+export interface SRTab {
+  /** Tab name, as in {@link ServiceRequest.tab} */
+  readonly name: string;
+  /** Display label */
+  readonly label: string;
+  /** When the SR entered the tab (ISO 8601) */
+  readonly entered_at?: string;
+}
+
+/**
+ * A workflow an SR runs through, included with `workflows: true`.
+ */
+export interface SRWorkflow {
+  readonly uuid: string;
+  readonly name: string;
+  /** Workflow revision the SR was started on */
+  readonly version: number;
+  /** Whether the SR is currently in this workflow */
+  readonly active: boolean;
+}
+
+/**
+ * The service an SR was created for, included with `service: true`.
+ */
+export interface SRService {
+  readonly uuid: string;
+  readonly name: string;
+  readonly description?: string;
+  /** Expected turnaround once authentication starts */
+  readonly turnaround_hours?: number;
+}
+
+/**
+ * The partner that owns an SR, included with `partner: true`.
+ */
+export interface SRPartner {
+  readonly uuid: string;
+  readonly name: string;
 }
 
 /**
@@ -404,7 +686,7 @@ export interface CreateSRRequest {
 
   /** 
    * Item taxonomy selection from the catalog.
-   * All three fields are required.
+   * Category, type and brand are required; model is optional.
    */
   readonly item: {
     /** Category UUID from getTaxonomyTree() */
@@ -413,6 +695,8 @@ export interface CreateSRRequest {
     readonly type: string;
     /** Brand UUID */
     readonly brand: string;
+    /** Model UUID from taxonomy.getModels(), for model-level authentication */
+    readonly model?: string;
   };
 }
 
@@ -429,7 +713,7 @@ export interface CreateSRResponse {
  * Options for fetching a Service Request.
  * Set properties to `true` to include that data.
  */
-export interface GetSROptions {
+export interface GetSROptions extends SignalOptions {
   /** Include authentication outcome */
   readonly outcome?: boolean;
   /** Include item details */
@@ -459,13 +743,52 @@ export interface GetSROptions {
 }
 
 /**
- * Response from fetching a Service Request.
+ * Fields guaranteed on a Service Request by each include flag. `user`,
+ * `tab` and `service` replace the SR's UUID or name with the full details.
+ */
+export interface SRIncludedFields {
+  readonly outcome: SROutcome | null;
+  readonly item: SRItem;
+  readonly sides: NonNullable<ServiceRequest['sides']>;
+  readonly user: SRUser;
+  readonly stages: readonly SRStage[];
+  readonly tab: SRTab;
+  readonly risk: SRRisk | null;
+  readonly summary: SRSummary;
+  readonly authenticators: readonly SRAuthenticator[];
+  readonly workflows: readonly SRWorkflow[];
+  readonly requirements: SRRequirements;
+  readonly service: SRService;
+  readonly partner: SRPartner;
+}
+
+/**
+ * A Service Request with the fields requested in `O` present.
+ * 
+ * @example
+ * ```typescript
+ * type WithOutcome = SRWithIncludes<{ outcome: true }>;
+ * // WithOutcome['outcome'] is SROutcome | null, not optional
+ * ```
  */
-export interface GetSRResponse {
+export type SRWithIncludes<O extends GetSROptions = GetSROptions> = Omit<ServiceRequest, IncludedKeys<O>> & {
+  readonly [K in IncludedKeys<O>]-?: SRIncludedFields[K];
+};
+
+/** Include flags set to a literal `true` in `O` */
+type IncludedKeys<O extends GetSROptions> = {
+  [K in keyof SRIncludedFields]: K extends keyof O ? (O[K] extends true ? K : never) : never;
+}[keyof SRIncludedFields];
+
+/**
+ * Response from fetching a Service Request. `sr` carries the fields
+ * requested through the include options `O`.
+ */
+export interface GetSRResponse<O extends GetSROptions = GetSROptions> {
   readonly success: boolean;
   readonly message: string;
   readonly rc_hit?: boolean;
-  readonly sr: ServiceRequest;
+  readonly sr: SRWithIncludes<O>;
 }
 
 /**
@@ -559,6 +882,48 @@ export interface SubmitSRResponse {
   };
 }
 
+/**
+ * Response from cancelling a Service Request.
+ */
+export interface CancelSRResponse {
+  readonly success: boolean;
+  readonly message: string;
+  readonly sr: {
+    readonly uuid: string;
+    readonly micro_id: string;
+    readonly state: SRState;
+  };
+}
+
+/**
+ * Changes to a Service Request's metadata. Omitted fields are left as they are.
+ * 
+ * @example
+ * ```typescript
+ * const changes: UpdateSRRequest = {
+ *   external_id: 'inv-42',
+ *   summary: { style: 'Dunk Low Panda', item_size: '10.5', item_condition: 'New' },
+ * };
+ * ```
+ */
+export interface UpdateSRRequest {
+  /** Your reference ID */
+  readonly external_id?: string;
+  /** Source platform */
+  readonly source?: string;
+  /** Item summary fields to change */
+  readonly summary?: SRSummary;
+}
+
+/**
+ * Response from updating a Service Request.
+ */
+export interface UpdateSRResponse {
+  readonly success: boolean;
+  readonly message: string;
+  readonly sr: ServiceRequest;
+}
+
 /**
  * Current state of a WorkflowRunner execution.
  * 
@@ -604,6 +969,9 @@ export type LegitmarkErrorCode =
   | 'SERVER_ERROR'           // Server-side error
   | 'UPLOAD_ERROR'           // Image upload failed
   | 'WORKFLOW_ERROR'         // Workflow step failed
+  | 'ABORT_ERROR'            // Cancelled through an AbortSignal
+  | 'CIRCUIT_OPEN_ERROR'     // Failed fast by an open circuit breaker
+  | 'AMBIGUOUS_MATCH_ERROR'  // A name or ID lookup matched several entries
   | 'UNKNOWN_ERROR';         // Unexpected error
 
 /**
@@ -616,6 +984,8 @@ export interface LegitmarkErrorContext {
   readonly endpoint?: string;
   /** Request ID for support */
   readonly requestId?: string;
+  /** Server-requested wait before retrying, from the `Retry-After` header */
+  readonly retryAfterMs?: number;
   /** Additional details */
   readonly details?: Record<string, unknown>;
 }
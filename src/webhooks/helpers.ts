@@ -4,21 +4,20 @@
  * Convenience functions that encode Legitmark domain knowledge so partners
  * don't need to memorize state combinations.
  * 
- * @see {@link https://docs.legitmark.com/partner/service-request-states} State Reference
+ * @see {@link https://docs.legitmark.com/webhook-reference/events#state_change} State Change Events
  */
 
 import {
   LegitmarkWebhookEvent,
   StateChangeEvent,
 } from './types';
+import { isSameState } from '../sr-state';
+import type { SRState } from '../types';
 
-const PRIMARY_COMPLETE = 'COMPLETE';
-const PRIMARY_CANCELLED = 'CANCELLED';
-const PRIMARY_QC = 'QC';
-const PRIMARY_UNDERWAY = 'UNDERWAY';
-const SUPPLEMENT_APPROVED = 'APPROVED';
-const SUPPLEMENT_REJECTED = 'REJECTED';
-const SUPPLEMENT_ASSIGNED = 'ASSIGNED';
+const AUTHENTIC: SRState = { primary: 'COMPLETE', supplement: 'APPROVED' };
+const COUNTERFEIT: SRState = { primary: 'COMPLETE', supplement: 'REJECTED' };
+const QC_APPROVED: SRState = { primary: 'QC', supplement: 'APPROVED' };
+const AUTHENTICATING: SRState = { primary: 'UNDERWAY', supplement: 'ASSIGNED' };
 
 /**
  * Returns `true` when the item has been authenticated as genuine.
@@ -37,8 +36,7 @@ const SUPPLEMENT_ASSIGNED = 'ASSIGNED';
  */
 export function isAuthentic(event: LegitmarkWebhookEvent): event is StateChangeEvent {
   return event.event_type === 'state_change'
-    && event.state.primary === PRIMARY_COMPLETE
-    && event.state.supplement === SUPPLEMENT_APPROVED;
+    && isSameState(event.state, AUTHENTIC);
 }
 
 /**
@@ -48,8 +46,7 @@ export function isAuthentic(event: LegitmarkWebhookEvent): event is StateChangeE
  */
 export function isCounterfeit(event: LegitmarkWebhookEvent): event is StateChangeEvent {
   return event.event_type === 'state_change'
-    && event.state.primary === PRIMARY_COMPLETE
-    && event.state.supplement === SUPPLEMENT_REJECTED;
+    && isSameState(event.state, COUNTERFEIT);
 }
 
 /**
@@ -59,7 +56,7 @@ export function isCounterfeit(event: LegitmarkWebhookEvent): event is StateChang
  */
 export function isCancelled(event: LegitmarkWebhookEvent): event is StateChangeEvent {
   return event.event_type === 'state_change'
-    && event.state.primary === PRIMARY_CANCELLED;
+    && event.state.primary === 'CANCELLED';
 }
 
 /**
@@ -80,8 +77,7 @@ export function needsResubmission(event: LegitmarkWebhookEvent): boolean {
  */
 export function isQcApproved(event: LegitmarkWebhookEvent): event is StateChangeEvent {
   return event.event_type === 'state_change'
-    && event.state.primary === PRIMARY_QC
-    && event.state.supplement === SUPPLEMENT_APPROVED;
+    && isSameState(event.state, QC_APPROVED);
 }
 
 /**
@@ -92,6 +88,5 @@ export function isQcApproved(event: LegitmarkWebhookEvent): event is StateChange
  */
 export function isAuthenticationInProgress(event: LegitmarkWebhookEvent): event is StateChangeEvent {
   return event.event_type === 'state_change'
-    && event.state.primary === PRIMARY_UNDERWAY
-    && event.state.supplement === SUPPLEMENT_ASSIGNED;
+    && isSameState(event.state, AUTHENTICATING);
 }
@@ -27,6 +27,8 @@
  * ```
  */
 
+import type { SRState, UnknownSRState } from '../types';
+
 /**
  * Event type identifiers for all Legitmark webhook events.
  */
@@ -58,14 +60,15 @@ interface WebhookEventBase {
  * - `COMPLETE + APPROVED` → item is authentic
  * - `COMPLETE + REJECTED` → item is not authentic
  * 
+ * See {@link SR_STATES} for every combination and its transitions. States
+ * added to the API after this SDK version arrive as {@link UnknownSRState};
+ * narrow with `isKnownState()` before switching over `state.primary`.
+ * 
  * @see {@link https://docs.legitmark.com/webhook-reference/events#state_change}
  */
 export interface StateChangeEvent extends WebhookEventBase {
   readonly event_type: 'state_change';
-  readonly state: {
-    readonly primary: string;
-    readonly supplement: string | null;
-  };
+  readonly state: SRState | UnknownSRState;
 }
 
 /**
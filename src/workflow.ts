@@ -9,11 +9,13 @@
 
 import { PartnerClient } from './client';
 import { LegitmarkError } from './errors';
+import { throwIfAborted } from './abort';
 import {
   WorkflowState,
   CreateSRRequest,
   Side,
   SideGroup,
+  SignalOptions,
 } from './types';
 
 const INITIAL_STEP_NAME = 'Not Started';
@@ -109,7 +111,7 @@ export interface WorkflowCallbacks {
 /**
  * Options for running the workflow.
  */
-export interface WorkflowOptions {
+export interface WorkflowOptions extends SignalOptions {
   /**
    * Skip Step 1 (Get Taxonomy).
    * Use this if you already have the taxonomy data.
@@ -228,39 +230,43 @@ export class WorkflowRunner {
     request: CreateSRRequest,
     options: WorkflowOptions = {}
   ): Promise<WorkflowState> {
-    try {
-      // Step 1: Get Taxonomy (optional)
-      if (!options.skipTaxonomy) {
-        await this.runStep1();
-      }
+    return this.client._trace('legitmark.workflow', { 'legitmark.workflow.from_step': 1 }, async () => {
+      try {
+        const stepOptions: SignalOptions = { signal: options.signal };
 
-      // Step 2: Create Service Request
-      await this.runStep2(request);
+        // Step 1: Get Taxonomy (optional)
+        if (!options.skipTaxonomy) {
+          await this.runStep1(stepOptions);
+        }
 
-      // Step 3: Get Requirements
-      await this.runStep3();
+        // Step 2: Create Service Request
+        await this.runStep2(request, stepOptions);
 
-      // Step 4: Upload Images
-      await this.runStep4();
+        // Step 3: Get Requirements
+        await this.runStep3(stepOptions);
 
-      // Step 5: Check Progress
-      await this.runStep5();
+        // Step 4: Upload Images
+        await this.runStep4(stepOptions);
 
-      // Step 6: Submit (optional)
-      if (!options.skipSubmit) {
-        await this.runStep6();
-      }
+        // Step 5: Check Progress
+        await this.runStep5(stepOptions);
 
-      this.state = { ...this.state, completed: true };
-      return this.getState();
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      this.state = {
-        ...this.state,
-        errors: [...this.state.errors, errorMessage],
-      };
-      throw error;
-    }
+        // Step 6: Submit (optional)
+        if (!options.skipSubmit) {
+          await this.runStep6(stepOptions);
+        }
+
+        this.state = { ...this.state, completed: true };
+        return this.getState();
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        this.state = {
+          ...this.state,
+          errors: [...this.state.errors, errorMessage],
+        };
+        throw error;
+      }
+    });
   }
 
   /**
@@ -335,45 +341,49 @@ export class WorkflowRunner {
       );
     }
 
-    try {
-      for (let step = fromStep; step <= TOTAL_STEPS; step++) {
-        const stepNum = step as WorkflowStepNumber;
-        
-        if (stepNum === 1 && options.skipTaxonomy) continue;
-        if (stepNum === 6 && options.skipSubmit) continue;
-
-        switch (stepNum) {
-          case 1:
-            await this.runStep1();
-            break;
-          case 2:
-            await this.runStep2(request!);
-            break;
-          case 3:
-            await this.runStep3();
-            break;
-          case 4:
-            await this.runStep4();
-            break;
-          case 5:
-            await this.runStep5();
-            break;
-          case 6:
-            await this.runStep6();
-            break;
+    return this.client._trace('legitmark.workflow', { 'legitmark.workflow.from_step': fromStep }, async () => {
+      try {
+        const stepOptions: SignalOptions = { signal: options.signal };
+
+        for (let step = fromStep; step <= TOTAL_STEPS; step++) {
+          const stepNum = step as WorkflowStepNumber;
+          
+          if (stepNum === 1 && options.skipTaxonomy) continue;
+          if (stepNum === 6 && options.skipSubmit) continue;
+
+          switch (stepNum) {
+            case 1:
+              await this.runStep1(stepOptions);
+              break;
+            case 2:
+              await this.runStep2(request!, stepOptions);
+              break;
+            case 3:
+              await this.runStep3(stepOptions);
+              break;
+            case 4:
+              await this.runStep4(stepOptions);
+              break;
+            case 5:
+              await this.runStep5(stepOptions);
+              break;
+            case 6:
+              await this.runStep6(stepOptions);
+              break;
+          }
         }
-      }
 
-      this.state = { ...this.state, completed: true };
-      return this.getState();
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      this.state = {
-        ...this.state,
-        errors: [...this.state.errors, errorMessage],
-      };
-      throw error;
-    }
+        this.state = { ...this.state, completed: true };
+        return this.getState();
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        this.state = {
+          ...this.state,
+          errors: [...this.state.errors, errorMessage],
+        };
+        throw error;
+      }
+    });
   }
 
   /**
@@ -381,21 +391,24 @@ export class WorkflowRunner {
    * 
    * Fetches the category/type catalog. Optional but useful for validation.
    */
-  async runStep1(): Promise<void> {
+  async runStep1(options: SignalOptions = {}): Promise<void> {
     const step = 1 as const;
     const stepName = WORKFLOW_STEP_NAMES[step];
     
+    throwIfAborted(options.signal);
     this.updateState(step, stepName);
     await this.callbacks.onStepStart?.(step, stepName);
 
-    try {
-      const taxonomy = await this.client.taxonomy.getTree({ activeOnly: true });
-      this.state = { ...this.state, taxonomy };
-      await this.callbacks.onStepComplete?.(step, stepName, taxonomy);
-    } catch (error) {
-      await this.callbacks.onStepError?.(step, stepName, error as Error);
-      throw error;
-    }
+    await this.traceStep(step, stepName, async () => {
+      try {
+        const taxonomy = await this.client.taxonomy.getTree({ activeOnly: true, signal: options.signal });
+        this.state = { ...this.state, taxonomy };
+        await this.callbacks.onStepComplete?.(step, stepName, taxonomy);
+      } catch (error) {
+        await this.callbacks.onStepError?.(step, stepName, error as Error);
+        throw error;
+      }
+    });
   }
 
   /**
@@ -403,25 +416,28 @@ export class WorkflowRunner {
    * 
    * Creates a new draft SR with the specified item details.
    */
-  async runStep2(request: CreateSRRequest): Promise<void> {
+  async runStep2(request: CreateSRRequest, options: SignalOptions = {}): Promise<void> {
     const step = 2 as const;
     const stepName = WORKFLOW_STEP_NAMES[step];
     
+    throwIfAborted(options.signal);
     this.updateState(step, stepName);
     await this.callbacks.onStepStart?.(step, stepName);
 
-    try {
-      const result = await this.client.sr.create(request);
-      this.state = {
-        ...this.state,
-        sr_uuid: result.sr.uuid,
-        sr: result.sr,
-      };
-      await this.callbacks.onStepComplete?.(step, stepName, result);
-    } catch (error) {
-      await this.callbacks.onStepError?.(step, stepName, error as Error);
-      throw error;
-    }
+    await this.traceStep(step, stepName, async () => {
+      try {
+        const result = await this.client.sr.create(request, { signal: options.signal });
+        this.state = {
+          ...this.state,
+          sr_uuid: result.sr.uuid,
+          sr: result.sr,
+        };
+        await this.callbacks.onStepComplete?.(step, stepName, result);
+      } catch (error) {
+        await this.callbacks.onStepError?.(step, stepName, error as Error);
+        throw error;
+      }
+    });
   }
 
   /**
@@ -429,27 +445,30 @@ export class WorkflowRunner {
    * 
    * Fetches photo requirements for the SR.
    */
-  async runStep3(): Promise<void> {
+  async runStep3(options: SignalOptions = {}): Promise<void> {
     this.assertSrUuid('Step 3');
     
     const step = 3 as const;
     const stepName = WORKFLOW_STEP_NAMES[step];
     
+    throwIfAborted(options.signal);
     this.updateState(step, stepName);
     await this.callbacks.onStepStart?.(step, stepName);
 
-    try {
-      const result = await this.client.sr.getWithRequirements(this.state.sr_uuid!);
-      this.state = {
-        ...this.state,
-        sr: result.sr,
-        requirements: result.sr.requirements,
-      };
-      await this.callbacks.onStepComplete?.(step, stepName, result);
-    } catch (error) {
-      await this.callbacks.onStepError?.(step, stepName, error as Error);
-      throw error;
-    }
+    await this.traceStep(step, stepName, async () => {
+      try {
+        const result = await this.client.sr.getWithRequirements(this.state.sr_uuid!, { signal: options.signal });
+        this.state = {
+          ...this.state,
+          sr: result.sr,
+          requirements: result.sr.requirements,
+        };
+        await this.callbacks.onStepComplete?.(step, stepName, result);
+      } catch (error) {
+        await this.callbacks.onStepError?.(step, stepName, error as Error);
+        throw error;
+      }
+    });
   }
 
   /**
@@ -457,47 +476,53 @@ export class WorkflowRunner {
    * 
    * Uploads images for all required sides using the getImageForSide callback.
    */
-  async runStep4(): Promise<void> {
+  async runStep4(options: SignalOptions = {}): Promise<void> {
     this.assertSrUuid('Step 4');
     this.assertRequirements('Step 4');
     
     const step = 4 as const;
     const stepName = WORKFLOW_STEP_NAMES[step];
     
+    throwIfAborted(options.signal);
     this.updateState(step, stepName);
     await this.callbacks.onStepStart?.(step, stepName);
 
-    try {
-      const requiredSides = this.getAllRequiredSides();
-      const uploadedSides: string[] = [];
-      let uploadedCount = 0;
-
-      for (const { side, sideGroup } of requiredSides) {
-        await this.callbacks.onUploadProgress?.(uploadedCount, requiredSides.length, side);
-        
-        const imageData = await this.callbacks.getImageForSide?.(side, sideGroup);
-        
-        if (imageData) {
-          await this.client.images.uploadForSide(this.state.sr_uuid!, side.uuid, imageData);
-          uploadedSides.push(side.uuid);
-          uploadedCount++;
+    await this.traceStep(step, stepName, async () => {
+      try {
+        const requiredSides = this.getAllRequiredSides();
+        const uploadedSides: string[] = [];
+        let uploadedCount = 0;
+
+        for (const { side, sideGroup } of requiredSides) {
+          await this.callbacks.onUploadProgress?.(uploadedCount, requiredSides.length, side);
+          
+          const imageData = await this.callbacks.getImageForSide?.(side, sideGroup);
+          throwIfAborted(options.signal);
+          
+          if (imageData) {
+            await this.client.images.uploadForSide(this.state.sr_uuid!, side.uuid, imageData, {
+              signal: options.signal,
+            });
+            uploadedSides.push(side.uuid);
+            uploadedCount++;
+          }
         }
-      }
 
-      this.state = {
-        ...this.state,
-        uploadedSides,
-      };
-
-      await this.callbacks.onStepComplete?.(step, stepName, {
-        uploaded: uploadedSides.length,
-        total: requiredSides.length,
-        sides: uploadedSides,
-      });
-    } catch (error) {
-      await this.callbacks.onStepError?.(step, stepName, error as Error);
-      throw error;
-    }
+        this.state = {
+          ...this.state,
+          uploadedSides,
+        };
+
+        await this.callbacks.onStepComplete?.(step, stepName, {
+          uploaded: uploadedSides.length,
+          total: requiredSides.length,
+          sides: uploadedSides,
+        });
+      } catch (error) {
+        await this.callbacks.onStepError?.(step, stepName, error as Error);
+        throw error;
+      }
+    });
   }
 
   /**
@@ -505,23 +530,26 @@ export class WorkflowRunner {
    * 
    * Verifies upload progress and whether requirements are met.
    */
-  async runStep5(): Promise<void> {
+  async runStep5(options: SignalOptions = {}): Promise<void> {
     this.assertSrUuid('Step 5');
     
     const step = 5 as const;
     const stepName = WORKFLOW_STEP_NAMES[step];
     
+    throwIfAborted(options.signal);
     this.updateState(step, stepName);
     await this.callbacks.onStepStart?.(step, stepName);
 
-    try {
-      const progress = await this.client.sr.getProgress(this.state.sr_uuid!);
-      this.state = { ...this.state, progress };
-      await this.callbacks.onStepComplete?.(step, stepName, progress);
-    } catch (error) {
-      await this.callbacks.onStepError?.(step, stepName, error as Error);
-      throw error;
-    }
+    await this.traceStep(step, stepName, async () => {
+      try {
+        const progress = await this.client.sr.getProgress(this.state.sr_uuid!, { signal: options.signal });
+        this.state = { ...this.state, progress };
+        await this.callbacks.onStepComplete?.(step, stepName, progress);
+      } catch (error) {
+        await this.callbacks.onStepError?.(step, stepName, error as Error);
+        throw error;
+      }
+    });
   }
 
   /**
@@ -529,23 +557,38 @@ export class WorkflowRunner {
    * 
    * Submits the SR for authentication. Requirements must be met.
    */
-  async runStep6(): Promise<void> {
+  async runStep6(options: SignalOptions = {}): Promise<void> {
     this.assertSrUuid('Step 6');
     this.assertRequirementsMet('Step 6');
     
     const step = 6 as const;
     const stepName = WORKFLOW_STEP_NAMES[step];
     
+    throwIfAborted(options.signal);
     this.updateState(step, stepName);
     await this.callbacks.onStepStart?.(step, stepName);
 
-    try {
-      const result = await this.client.sr.submit(this.state.sr_uuid!);
-      await this.callbacks.onStepComplete?.(step, stepName, result);
-    } catch (error) {
-      await this.callbacks.onStepError?.(step, stepName, error as Error);
-      throw error;
-    }
+    await this.traceStep(step, stepName, async () => {
+      try {
+        const result = await this.client.sr.submit(this.state.sr_uuid!, { signal: options.signal });
+        await this.callbacks.onStepComplete?.(step, stepName, result);
+      } catch (error) {
+        await this.callbacks.onStepError?.(step, stepName, error as Error);
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Run a step inside a telemetry span, so the requests it makes appear
+   * as its children.
+   */
+  private traceStep(step: WorkflowStepNumber, stepName: WorkflowStepName, fn: () => Promise<void>): Promise<void> {
+    return this.client._trace(`legitmark.workflow ${stepName}`, {
+      'legitmark.workflow.step': step,
+      'legitmark.workflow.step_name': stepName,
+      'legitmark.sr_uuid': this.state.sr_uuid,
+    }, fn);
   }
 
   private updateState(step: WorkflowStepNumber, stepName: WorkflowStepName): void {
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+
+import { BrandIndex } from '../src/brand-index';
+import { ConfigurationError } from '../src/errors';
+import type { Brand } from '../src/types';
+import { FIXTURE_BRAND, FIXTURE_BRAND_AIR_JORDAN } from './fixtures';
+
+const NEW_BALANCE: Brand = { uuid: 'new-balance', name: 'New Balance', active: true };
+const NIKE_SB: Brand = { uuid: 'nike-sb', name: 'Nike SB', active: true };
+const NIKELAB: Brand = { uuid: 'nikelab', name: 'NikeLab', active: false };
+const BRANDS = [FIXTURE_BRAND_AIR_JORDAN, NEW_BALANCE, NIKE_SB, FIXTURE_BRAND, NIKELAB];
+
+function names(index: BrandIndex, query: string, options = {}): string[] {
+  return index.search(query, options).map(s => s.brand.name);
+}
+
+describe('BrandIndex', () => {
+  it('ranks exact matches, then prefixes, then word prefixes', () => {
+    const index = new BrandIndex([...BRANDS, { uuid: 'x', name: 'Kids Nike', active: true }]);
+
+    expect(index.search('nike').map(s => [s.brand.name, s.score])).toEqual([
+      ['Nike', 1],
+      ['Nike SB', 0.9],
+      ['Kids Nike', 0.8],
+    ]);
+  });
+
+  it('ignores case, accents and punctuation', () => {
+    const index = new BrandIndex(BRANDS);
+
+    expect(names(index, 'NÍKE s')[0]).toBe('Nike SB');
+    expect(names(index, 'air-jor')).toEqual(['Air Jordan']);
+  });
+
+  it('suggests fuzzy matches below prefix matches', () => {
+    const index = new BrandIndex(BRANDS);
+
+    const [suggestion] = index.search('new balnce');
+    expect(suggestion.brand).toBe(NEW_BALANCE);
+    expect(suggestion.score).toBeLessThan(0.7);
+    expect(names(index, 'new bsl')).toEqual(['New Balance']);
+    expect(names(index, 'new bsl', { fuzzy: false })).toEqual([]);
+  });
+
+  it('matches aliases and reports what matched', () => {
+    const index = new BrandIndex(BRANDS, { aliases: { [FIXTURE_BRAND_AIR_JORDAN.uuid]: ['Jordan', 'AJ'] } });
+
+    expect(index.search('aj')).toEqual([{ brand: FIXTURE_BRAND_AIR_JORDAN, score: 1, matched: 'AJ' }]);
+    expect(index.search('jor')[0].matched).toBe('Jordan');
+  });
+
+  it('breaks ties by popularity, then list position', () => {
+    const index = new BrandIndex(BRANDS, { popularity: { [FIXTURE_BRAND.uuid]: 10 } });
+
+    expect(names(index, 'n')).toEqual(['Nike', 'New Balance', 'Nike SB']);
+    expect(names(index, '', { limit: 2 })).toEqual(['Nike', 'Air Jordan']);
+  });
+
+  it('skips inactive brands unless asked', () => {
+    const index = new BrandIndex(BRANDS);
+
+    expect(names(index, 'nikelab')).not.toContain('NikeLab');
+    expect(names(index, 'nikelab', { includeInactive: true })[0]).toBe('NikeLab');
+  });
+
+  it('round-trips through JSON', () => {
+    const index = new BrandIndex(BRANDS, {
+      aliases: { [FIXTURE_BRAND_AIR_JORDAN.uuid]: ['Jordan'] },
+      popularity: { [NEW_BALANCE.uuid]: 5 },
+    });
+
+    const restored = BrandIndex.fromJSON(JSON.parse(JSON.stringify(index)));
+
+    expect(restored.size).toBe(BRANDS.length);
+    expect(restored.get(FIXTURE_BRAND.uuid)).toEqual(FIXTURE_BRAND);
+    expect(restored.search('jordan')).toEqual(index.search('jordan'));
+    expect(names(restored, 'n')).toEqual(names(index, 'n'));
+  });
+
+  it('rejects data that is not a snapshot', () => {
+    expect(() => BrandIndex.fromJSON({ brands: [] } as never)).toThrow(ConfigurationError);
+  });
+});
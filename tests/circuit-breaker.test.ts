@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import { PartnerClient } from '../src/client';
+import { ConfigurationError, TransportError } from '../src/errors';
+import { CircuitBreaker, type CircuitStateChangeEvent } from '../src/circuit-breaker';
+import { withRetry } from '../src/retry';
+import { TEST_API_KEY, createMockTransport } from './utils';
+
+const OK_RESPONSE = { status: 200, headers: {}, data: {} };
+const BREAKER_OPTIONS = { failureThreshold: 0.5, minimumRequests: 4, resetTimeout: 10_000 } as const;
+
+function serverError(): TransportError {
+  return new TransportError('http', 'Unavailable', { status: 503 });
+}
+
+describe('CircuitBreaker', () => {
+  it('rejects out-of-range options', () => {
+    expect(() => new CircuitBreaker({ failureThreshold: 1.5 })).toThrow(ConfigurationError);
+    expect(() => new CircuitBreaker({ resetTimeout: 0 })).toThrow('resetTimeout must be a positive number');
+  });
+
+  it('starts closed', () => {
+    expect(new CircuitBreaker().getState()).toBe('closed');
+  });
+});
+
+describe('PartnerClient circuit breaker', () => {
+  let transport: ReturnType<typeof createMockTransport>;
+  let events: CircuitStateChangeEvent[];
+  let breaker: CircuitBreaker;
+  let client: PartnerClient;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    transport = createMockTransport();
+    events = [];
+    breaker = new CircuitBreaker({ ...BREAKER_OPTIONS, onStateChange: (e) => events.push(e) });
+    client = new PartnerClient({ apiKey: TEST_API_KEY, transport, circuitBreaker: breaker });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  async function failTimes(count: number): Promise<void> {
+    transport.request.mockRejectedValue(serverError());
+    for (let i = 0; i < count; i++) {
+      await client.taxonomy.getTree().catch(() => undefined);
+    }
+  }
+
+  it('stays closed below the minimum number of requests', async () => {
+    await failTimes(3);
+
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('opens at the failure-rate threshold and fails fast', async () => {
+    transport.request.mockResolvedValueOnce(OK_RESPONSE).mockResolvedValueOnce(OK_RESPONSE);
+    await client.taxonomy.getTree();
+    await client.taxonomy.getTree();
+    await failTimes(2);
+
+    expect(breaker.getState()).toBe('open');
+    expect(events).toEqual([expect.objectContaining({ circuit: 'platform', from: 'closed', to: 'open', failureRate: 0.5 })]);
+
+    transport.request.mockClear();
+    const error = await client.taxonomy.getTree().catch((e) => e);
+    expect(error.code).toBe('CIRCUIT_OPEN_ERROR');
+    expect(error.isRetryable).toBe(false);
+    expect(error.context.retryAfterMs).toBe(10_000);
+    expect(transport.request).not.toHaveBeenCalled();
+  });
+
+  it('is not retried by withRetry', async () => {
+    await failTimes(4);
+    const fn = vi.fn(() => client.taxonomy.getTree());
+
+    await expect(withRetry(fn, { attempts: 3, delay: 1_000 })).rejects.toMatchObject({ code: 'CIRCUIT_OPEN_ERROR' });
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not count client errors as failures', async () => {
+    transport.request.mockRejectedValue(new TransportError('http', 'Not found', { status: 404 }));
+    for (let i = 0; i < 5; i++) {
+      await client.taxonomy.getTree().catch(() => undefined);
+    }
+
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('closes after a successful half-open probe', async () => {
+    await failTimes(4);
+    vi.advanceTimersByTime(10_000);
+
+    expect(breaker.getState()).toBe('half-open');
+    transport.request.mockResolvedValue(OK_RESPONSE);
+    await client.taxonomy.getTree();
+
+    expect(breaker.getState()).toBe('closed');
+    expect(events.map(e => e.to)).toEqual(['open', 'half-open', 'closed']);
+  });
+
+  it('reopens when the half-open probe fails', async () => {
+    await failTimes(4);
+    vi.advanceTimersByTime(10_000);
+
+    await failTimes(1);
+
+    expect(breaker.getState()).toBe('open');
+    expect(events.map(e => e.to)).toEqual(['open', 'half-open', 'open']);
+  });
+
+  it('allows only the configured number of concurrent probes', async () => {
+    await failTimes(4);
+    vi.advanceTimersByTime(10_000);
+    let resolveProbe!: (value: typeof OK_RESPONSE) => void;
+    transport.request.mockReturnValueOnce(new Promise((r) => { resolveProbe = r; }));
+
+    const probe = client.taxonomy.getTree();
+    await expect(client.taxonomy.getTree()).rejects.toMatchObject({ code: 'CIRCUIT_OPEN_ERROR' });
+
+    resolveProbe(OK_RESPONSE);
+    await probe;
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('keeps asset traffic on its own circuit', async () => {
+    await failTimes(4);
+    transport.request.mockResolvedValue(OK_RESPONSE);
+
+    await client.images.getIntent('sr-uuid', 'side-uuid');
+
+    expect(breaker.getState('platform')).toBe('open');
+    expect(breaker.getState('asset')).toBe('closed');
+  });
+
+  it('is shared with clients created by withOptions', async () => {
+    const configured = new PartnerClient({ apiKey: TEST_API_KEY, transport, circuitBreaker: BREAKER_OPTIONS });
+    transport.request.mockRejectedValue(serverError());
+    for (let i = 0; i < 4; i++) {
+      await configured.taxonomy.getTree().catch(() => undefined);
+    }
+
+    await expect(configured.withOptions({ timeout: 5 }).taxonomy.getTree())
+      .rejects.toMatchObject({ code: 'CIRCUIT_OPEN_ERROR' });
+  });
+});
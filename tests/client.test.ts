@@ -8,8 +8,9 @@ import {
   createClientFromEnv,
   PartnerClient,
   Legitmark,
+  LEGITMARK_ENVIRONMENTS,
 } from '../src/client';
-import { TEST_API_KEY, withEnvBackup } from './utils';
+import { TEST_API_KEY, withEnvBackup, createMockTransport } from './utils';
 
 describe('LegitmarkError', () => {
   it('stores code and message', () => {
@@ -203,6 +204,17 @@ describe('createClientFromEnv', () => {
     expect(() => createClientFromEnv()).toThrow(ConfigurationError);
   });
 
+  it('throws ConfigurationError for unknown LEGITMARK_ENVIRONMENT', () => {
+    process.env.LEGITMARK_API_KEY = TEST_API_KEY;
+    process.env.LEGITMARK_ENVIRONMENT = 'qa';
+
+    expect(() => createClientFromEnv()).toThrow(ConfigurationError);
+
+    process.env.LEGITMARK_ENVIRONMENT = 'toString';
+    expect(() => createClientFromEnv()).toThrow(ConfigurationError);
+    expect(validateEnvironment().valid).toBe(false);
+  });
+
   it('enables debug when LEGITMARK_DEBUG is true', () => {
     process.env.LEGITMARK_API_KEY = TEST_API_KEY;
     process.env.LEGITMARK_DEBUG = 'true';
@@ -248,6 +260,90 @@ describe('PartnerClient', () => {
   });
 });
 
+describe('PartnerClient URLs', () => {
+  withEnvBackup();
+
+  async function requestedUrls(client: PartnerClient, transport: ReturnType<typeof createMockTransport>) {
+    transport.request.mockResolvedValue({ status: 200, headers: {}, data: {} });
+    await client._get('/api/v2/brands');
+    await client._getAsset('/intent');
+    return transport.request.mock.calls.map(([request]) => request.url);
+  }
+
+  it('defaults to production URLs', async () => {
+    delete process.env.LEGITMARK_BASE_URL;
+    const transport = createMockTransport();
+
+    const urls = await requestedUrls(new PartnerClient({ apiKey: TEST_API_KEY, transport }), transport);
+
+    expect(urls).toEqual([
+      `${LEGITMARK_ENVIRONMENTS.production.baseUrl}/api/v2/brands`,
+      `${LEGITMARK_ENVIRONMENTS.production.assetUrl}/intent`,
+    ]);
+  });
+
+  it('uses the named environment URLs', async () => {
+    const transport = createMockTransport();
+
+    const urls = await requestedUrls(
+      new PartnerClient({ apiKey: TEST_API_KEY, environment: 'staging', transport }),
+      transport
+    );
+
+    expect(urls).toEqual([
+      `${LEGITMARK_ENVIRONMENTS.staging.baseUrl}/api/v2/brands`,
+      `${LEGITMARK_ENVIRONMENTS.staging.assetUrl}/intent`,
+    ]);
+  });
+
+  it('prefers explicit baseUrl and assetUrl over environment and env vars', async () => {
+    process.env.LEGITMARK_BASE_URL = 'https://from-env.example.com';
+    const transport = createMockTransport();
+
+    const urls = await requestedUrls(
+      new PartnerClient({
+        apiKey: TEST_API_KEY,
+        environment: 'staging',
+        baseUrl: 'http://localhost:4010/',
+        assetUrl: 'http://localhost:4011',
+        transport,
+      }),
+      transport
+    );
+
+    expect(urls).toEqual(['http://localhost:4010/api/v2/brands', 'http://localhost:4011/intent']);
+  });
+
+  it('falls back to LEGITMARK_BASE_URL when no environment is set', async () => {
+    process.env.LEGITMARK_BASE_URL = 'https://from-env.example.com';
+    const transport = createMockTransport();
+
+    const urls = await requestedUrls(new PartnerClient({ apiKey: TEST_API_KEY, transport }), transport);
+
+    expect(urls[0]).toBe('https://from-env.example.com/api/v2/brands');
+  });
+
+  it('keeps URLs on clients created by withOptions', async () => {
+    const transport = createMockTransport();
+    const client = new PartnerClient({ apiKey: TEST_API_KEY, baseUrl: 'http://localhost:4010', transport });
+
+    const urls = await requestedUrls(client.withOptions({ timeout: 1000 }), transport);
+
+    expect(urls[0]).toBe('http://localhost:4010/api/v2/brands');
+  });
+
+  it('throws ConfigurationError for unknown environment', () => {
+    expect(() => new PartnerClient({
+      apiKey: TEST_API_KEY,
+      environment: 'qa' as never,
+    })).toThrow(ConfigurationError);
+    expect(() => new PartnerClient({
+      apiKey: TEST_API_KEY,
+      environment: 'toString' as never,
+    })).toThrow("Unknown environment 'toString'");
+  });
+});
+
 describe('Legitmark', () => {
   it('extends PartnerClient', () => {
     const client = new Legitmark(TEST_API_KEY);
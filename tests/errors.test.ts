@@ -15,6 +15,9 @@ const ALL_ERROR_CODES: LegitmarkErrorCode[] = [
   'SERVER_ERROR',
   'UPLOAD_ERROR',
   'WORKFLOW_ERROR',
+  'ABORT_ERROR',
+  'CIRCUIT_OPEN_ERROR',
+  'AMBIGUOUS_MATCH_ERROR',
   'UNKNOWN_ERROR',
 ];
 
@@ -105,6 +108,7 @@ describe('LegitmarkError', () => {
       'TIMEOUT_ERROR',
       'RATE_LIMIT_ERROR',
       'SERVER_ERROR',
+      'CIRCUIT_OPEN_ERROR',
     ];
 
     const NON_RETRYABLE_CODES: LegitmarkErrorCode[] = [
@@ -114,6 +118,8 @@ describe('LegitmarkError', () => {
       'NOT_FOUND_ERROR',
       'UPLOAD_ERROR',
       'WORKFLOW_ERROR',
+      'ABORT_ERROR',
+      'AMBIGUOUS_MATCH_ERROR',
       'UNKNOWN_ERROR',
     ];
 
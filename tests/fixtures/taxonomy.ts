@@ -1,6 +1,7 @@
 import type {
   Category,
   Brand,
+  Model,
   CatalogTreeResponse,
 } from '../../src/types';
 
@@ -42,6 +43,12 @@ export const FIXTURE_BRAND_AIR_JORDAN: Brand = {
   media: 'https://media.legitmark.com/static/brands/air_jordan.svg',
 };
 
+export const FIXTURE_MODEL: Model = {
+  uuid: 'b1f0c6d2-3a4e-4f8b-9c1d-2e5f6a7b8c9d',
+  name: 'Dunk Low',
+  active: true,
+};
+
 export const FIXTURE_CATALOG_TREE: CatalogTreeResponse = {
   success: true,
   message: 'Catalog tree fetched successfully',
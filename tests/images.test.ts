@@ -27,7 +27,7 @@ describe('Images', () => {
       expect(mockClient._getAsset).toHaveBeenCalledWith('/intent', {
         sr: FIXTURE_SR.uuid,
         side: `${TEST_SIDE.uuid}.jpg`,
-      });
+      }, { signal: undefined });
       expect(result).toEqual(intentResponse);
     });
 
@@ -39,7 +39,7 @@ describe('Images', () => {
       expect(mockClient._getAsset).toHaveBeenCalledWith('/intent', {
         sr: FIXTURE_SR.uuid,
         side: `${TEST_SIDE.uuid}.png`,
-      });
+      }, { signal: undefined });
     });
 
     it('handles intent error', async () => {
@@ -59,7 +59,8 @@ describe('Images', () => {
       expect(mockClient._uploadToUrl).toHaveBeenCalledWith(
         'https://upload.url',
         imageBuffer,
-        'image/jpeg'
+        'image/jpeg',
+        { signal: undefined }
       );
       expect(mockClient._log).toHaveBeenCalledWith(
         'debug',
@@ -78,7 +79,8 @@ describe('Images', () => {
       expect(mockClient._uploadToUrl).toHaveBeenCalledWith(
         'https://upload.url',
         imageBuffer,
-        'image/png'
+        'image/png',
+        { signal: undefined }
       );
     });
 
@@ -104,11 +106,12 @@ describe('Images', () => {
       expect(mockClient._getAsset).toHaveBeenCalledWith('/intent', {
         sr: FIXTURE_SR.uuid,
         side: `${TEST_SIDE.uuid}.jpg`,
-      });
+      }, { signal: undefined });
       expect(mockClient._uploadToUrl).toHaveBeenCalledWith(
         'https://presigned.url',
         imageBuffer,
-        'image/jpeg'
+        'image/jpeg',
+        { signal: undefined }
       );
       expect(mockClient._log).toHaveBeenCalledWith(
         'info',
@@ -127,7 +130,8 @@ describe('Images', () => {
       expect(mockClient._uploadToUrl).toHaveBeenCalledWith(
         'https://url',
         expect.any(Buffer),
-        'image/webp'
+        'image/webp',
+        { signal: undefined }
       );
     });
 
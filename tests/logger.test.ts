@@ -0,0 +1,145 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+
+import { PartnerClient } from '../src/client';
+import { createLogger, resolveLogLevel, type Logger } from '../src/logger';
+import { TEST_API_KEY, createMockTransport } from './utils';
+
+const SIGNED_URL = 'https://bucket.s3.amazonaws.com/sr/photo.jpg?X-Amz-Credential=AKIA123&X-Amz-Signature=deadbeef';
+
+function createMockLogger(): { [K in keyof Logger]: ReturnType<typeof vi.fn> } {
+  return { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+}
+
+describe('createLogger', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('drops records below the configured level', () => {
+    const sink = createMockLogger();
+    const logger = createLogger({ logger: sink, level: 'warn' });
+
+    logger.debug('debug');
+    logger.info('info');
+    logger.warn('warn');
+    logger.error('error');
+
+    expect(sink.debug).not.toHaveBeenCalled();
+    expect(sink.info).not.toHaveBeenCalled();
+    expect(sink.warn).toHaveBeenCalledWith('warn');
+    expect(sink.error).toHaveBeenCalledWith('error');
+  });
+
+  it('logs nothing when silent', () => {
+    const sink = createMockLogger();
+    const logger = createLogger({ logger: sink, level: 'silent' });
+
+    logger.error('error');
+
+    expect(sink.error).not.toHaveBeenCalled();
+  });
+
+  it('redacts bearer tokens, secrets and signed URLs in messages', () => {
+    const sink = createMockLogger();
+    const logger = createLogger({ logger: sink, level: 'debug', secrets: [TEST_API_KEY] });
+
+    logger.info(`Authorization: Bearer abc.def key=${TEST_API_KEY} PUT ${SIGNED_URL}`);
+
+    const message = sink.info.mock.calls[0][0] as string;
+    expect(message).not.toContain('abc.def');
+    expect(message).not.toContain(TEST_API_KEY);
+    expect(message).not.toContain('deadbeef');
+    expect(message).toContain('https://bucket.s3.amazonaws.com/sr/photo.jpg?[REDACTED]');
+  });
+
+  it('keeps query strings that carry no credentials', () => {
+    const sink = createMockLogger();
+    const logger = createLogger({ logger: sink, level: 'debug' });
+
+    logger.debug('GET https://api.legitmark.com/api/v2/sr/abc?item=true');
+
+    expect(sink.debug).toHaveBeenCalledWith('GET https://api.legitmark.com/api/v2/sr/abc?item=true');
+  });
+
+  it('redacts default and configured fields at any depth', () => {
+    const sink = createMockLogger();
+    const logger = createLogger({ logger: sink, level: 'debug', redact: ['Email'] });
+
+    logger.debug('payload', {
+      headers: { Authorization: 'Bearer x', 'X-Request-Id': 'req_1' },
+      users: [{ email: 'a@example.com', name: 'A' }],
+    });
+
+    expect(sink.debug).toHaveBeenCalledWith('payload', {
+      headers: { Authorization: '[REDACTED]', 'X-Request-Id': 'req_1' },
+      users: [{ email: '[REDACTED]', name: 'A' }],
+    });
+  });
+
+  it('does not mutate the original payload and handles cycles', () => {
+    const sink = createMockLogger();
+    const logger = createLogger({ logger: sink, level: 'debug' });
+    const payload: Record<string, unknown> = { apiKey: 'secret' };
+    payload.self = payload;
+
+    logger.debug('cyclic', payload);
+
+    expect(payload.apiKey).toBe('secret');
+    expect(sink.debug).toHaveBeenCalledWith('cyclic', { apiKey: '[REDACTED]', self: '[Circular]' });
+  });
+
+  it('writes one JSON object per line in json format', () => {
+    const spy = vi.spyOn(console, 'info').mockImplementation(() => undefined);
+    const logger = createLogger({ level: 'info', format: 'json', secrets: [TEST_API_KEY] });
+
+    logger.info('Uploaded', { bytes: 12, key: TEST_API_KEY });
+
+    const line = JSON.parse(spy.mock.calls[0][0] as string);
+    expect(line).toMatchObject({ level: 'info', name: 'LegitmarkPartnerSDK', msg: 'Uploaded', bytes: 12, key: '[REDACTED]' });
+    expect(line.time).toEqual(expect.any(String));
+  });
+
+  it('keeps the JSON envelope when metadata uses the same keys', () => {
+    const spy = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const logger = createLogger({ level: 'info', format: 'json' });
+
+    logger.warn('Retrying', { level: 'debug', msg: 'spoofed', name: 'other', attempt: 2 });
+
+    const line = JSON.parse(spy.mock.calls[0][0] as string);
+    expect(line).toMatchObject({ level: 'warn', name: 'LegitmarkPartnerSDK', msg: 'Retrying', attempt: 2 });
+  });
+
+  it('resolves the level from logLevel before the debug flag', () => {
+    expect(resolveLogLevel(undefined, false)).toBe('info');
+    expect(resolveLogLevel(undefined, true)).toBe('debug');
+    expect(resolveLogLevel('error', true)).toBe('error');
+  });
+});
+
+describe('PartnerClient logging', () => {
+  it('sends request logs to the injected logger without credentials', async () => {
+    const logger = createMockLogger();
+    const transport = createMockTransport();
+    transport.request.mockResolvedValue({ status: 200, headers: {}, data: undefined });
+    const client = new PartnerClient({ apiKey: TEST_API_KEY, transport, logger, logLevel: 'debug' });
+
+    await client.taxonomy.getTree();
+    await client.images.upload(SIGNED_URL, Buffer.from([1]));
+
+    const output = JSON.stringify([...logger.debug.mock.calls, ...logger.info.mock.calls]);
+    expect(logger.debug).toHaveBeenCalledWith(expect.stringContaining('GET /api/v2/categories/tree'));
+    expect(output).not.toContain(TEST_API_KEY);
+    expect(output).not.toContain('deadbeef');
+  });
+
+  it('shares the logger with clients created by withOptions', async () => {
+    const logger = createMockLogger();
+    const transport = createMockTransport();
+    transport.request.mockResolvedValue({ status: 200, headers: {}, data: {} });
+    const client = new PartnerClient({ apiKey: TEST_API_KEY, transport, logger, debug: true });
+
+    await client.withOptions({ timeout: 5 }).taxonomy.getTree();
+
+    expect(logger.debug).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { PartnerClient } from '../src/client';
+import { LegitmarkError, TransportError } from '../src/errors';
+import type { Middleware, MiddlewareRequest } from '../src/middleware';
+import { TEST_API_KEY, createMockTransport } from './utils';
+import { FIXTURE_SR } from './fixtures';
+
+const OK_RESPONSE = { status: 200, headers: {}, data: { success: true } };
+
+describe('PartnerClient middleware', () => {
+  let transport: ReturnType<typeof createMockTransport>;
+  let client: PartnerClient;
+
+  beforeEach(() => {
+    transport = createMockTransport();
+    transport.request.mockResolvedValue(OK_RESPONSE);
+    client = new PartnerClient({ apiKey: TEST_API_KEY, transport });
+  });
+
+  it('lets middleware add headers to outgoing requests', async () => {
+    client.use((request, next) => next({
+      ...request,
+      headers: { ...request.headers, 'X-Correlation-Id': 'corr-1' },
+    }));
+
+    await client.sr.get(FIXTURE_SR.uuid);
+
+    const sent = transport.request.mock.calls[0][0];
+    expect(sent.headers['X-Correlation-Id']).toBe('corr-1');
+    expect(sent.headers.Authorization).toBe(`Bearer ${TEST_API_KEY}`);
+  });
+
+  it('runs middleware in registration order', async () => {
+    const calls: string[] = [];
+    const track = (name: string): Middleware => async (request, next) => {
+      calls.push(`${name}:before`);
+      const response = await next(request);
+      calls.push(`${name}:after`);
+      return response;
+    };
+
+    client.use(track('outer')).use(track('inner'));
+    await client.taxonomy.getTree();
+
+    expect(calls).toEqual(['outer:before', 'inner:before', 'inner:after', 'outer:after']);
+  });
+
+  it('lets middleware replace the response', async () => {
+    client.use(async (request, next) => {
+      const response = await next(request);
+      return { ...response, data: { replaced: true } };
+    });
+
+    await expect(client.taxonomy.getTree()).resolves.toEqual({ replaced: true });
+  });
+
+  it('identifies platform, asset and upload targets', async () => {
+    const seen: MiddlewareRequest[] = [];
+    client.use((request, next) => {
+      seen.push(request);
+      return next(request);
+    });
+
+    await client.taxonomy.getTree();
+    await client.images.getIntent(FIXTURE_SR.uuid, 'side-uuid');
+    await client.images.upload('https://bucket.example.com/key?sig=1', Buffer.from([1]));
+
+    expect(seen.map(r => r.target)).toEqual(['platform', 'asset', 'upload']);
+    expect(seen[0].endpoint).toBe('/api/v2/categories/tree');
+    expect(seen[0].attempt).toBe(1);
+  });
+
+  it('passes mapped LegitmarkErrors to middleware', async () => {
+    const onError = vi.fn();
+    transport.request.mockRejectedValue(new TransportError('http', 'Not found', { status: 404 }));
+    client.use(async (request, next) => {
+      try {
+        return await next(request);
+      } catch (error) {
+        onError(error);
+        throw error;
+      }
+    });
+
+    await expect(client.taxonomy.getTree()).rejects.toMatchObject({ code: 'NOT_FOUND_ERROR' });
+    expect(onError.mock.calls[0][0]).toBeInstanceOf(LegitmarkError);
+    expect(onError.mock.calls[0][0].code).toBe('NOT_FOUND_ERROR');
+  });
+
+  it('maps faults thrown by middleware like transport failures', async () => {
+    client.use(async () => {
+      throw new TransportError('http', 'Injected', { status: 503 });
+    });
+
+    await expect(client.taxonomy.getTree()).rejects.toMatchObject({ code: 'SERVER_ERROR', isRetryable: true });
+    expect(transport.request).not.toHaveBeenCalled();
+  });
+
+  it('runs once per attempt when retrying', async () => {
+    const retrying = new PartnerClient({ apiKey: TEST_API_KEY, transport, retry: { delay: 1, jitter: false } });
+    const attempts: number[] = [];
+    let fail = true;
+    retrying.use(async (request, next) => {
+      attempts.push(request.attempt);
+      if (fail) {
+        fail = false;
+        throw new TransportError('network', 'ECONNRESET');
+      }
+      return next(request);
+    });
+
+    await retrying.taxonomy.getTree();
+
+    expect(attempts).toEqual([1, 2]);
+    expect(transport.request).toHaveBeenCalledTimes(1);
+  });
+
+  it('shares middleware with clients created by withOptions', async () => {
+    const middleware = vi.fn<Middleware>((request, next) => next(request));
+    const derived = client.withOptions({ timeout: 5 });
+    client.use(middleware);
+
+    await derived.taxonomy.getTree();
+
+    expect(middleware).toHaveBeenCalledTimes(1);
+  });
+
+  it('accepts middleware in the config', async () => {
+    const middleware = vi.fn<Middleware>((request, next) => next(request));
+    const configured = new PartnerClient({ apiKey: TEST_API_KEY, transport, middleware: [middleware] });
+
+    await configured.taxonomy.getTree();
+
+    expect(middleware).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi } from 'vitest';
+
+import { ConfigurationError } from '../src/errors';
+import { createAbortError } from '../src/abort';
+import { Paginator, type PageRequest } from '../src/pagination';
+import type { PaginatedResponse } from '../src/types';
+
+/** Fetcher over `total` numbered items that reports page metadata */
+function createFetcher(total: number, withMetadata = true) {
+  return vi.fn(async ({ page, pageSize }: PageRequest): Promise<PaginatedResponse<number>> => {
+    const start = (page - 1) * pageSize;
+    const data = Array.from({ length: Math.max(0, Math.min(pageSize, total - start)) }, (_, i) => start + i);
+    return {
+      success: true,
+      message: 'OK',
+      data,
+      metadata: withMetadata
+        ? { total_count: total, page_number: page, total_pages: Math.ceil(total / pageSize), page_size: pageSize }
+        : undefined,
+    };
+  });
+}
+
+describe('Paginator', () => {
+  it('yields every item across pages in order', async () => {
+    const fetchPage = createFetcher(5);
+
+    const items = await new Paginator(fetchPage, { pageSize: 2 }).toArray();
+
+    expect(items).toEqual([0, 1, 2, 3, 4]);
+    expect(fetchPage.mock.calls.map(([r]) => r.page)).toEqual([1, 2, 3]);
+  });
+
+  it('stops at the first short page when metadata is absent', async () => {
+    const fetchPage = createFetcher(4, false);
+
+    const items = await new Paginator(fetchPage, { pageSize: 3 }).toArray();
+
+    expect(items).toEqual([0, 1, 2, 3]);
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops at an empty page when metadata is absent', async () => {
+    const fetchPage = createFetcher(4, false);
+
+    const items = await new Paginator(fetchPage, { pageSize: 2 }).toArray();
+
+    expect(items).toEqual([0, 1, 2, 3]);
+    expect(fetchPage).toHaveBeenCalledTimes(3);
+  });
+
+  it('prefetches up to concurrency pages once the page count is known', async () => {
+    const fetchPage = createFetcher(10);
+    const pages = new Paginator(fetchPage, { pageSize: 2, concurrency: 3 }).pages();
+
+    await pages.next();
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+
+    await pages.next();
+    expect(fetchPage.mock.calls.map(([r]) => r.page)).toEqual([1, 2, 3, 4]);
+
+    const rest = [];
+    for await (const page of pages) {
+      rest.push(page.metadata?.page_number);
+    }
+    expect(rest).toEqual([3, 4, 5]);
+    expect(fetchPage).toHaveBeenCalledTimes(5);
+  });
+
+  it('stops fetching and aborts prefetched pages on early exit', async () => {
+    const fetchPage = createFetcher(10);
+
+    const seen: number[] = [];
+    for await (const item of new Paginator(fetchPage, { pageSize: 2, concurrency: 2 })) {
+      seen.push(item);
+      if (item === 2) break;
+    }
+
+    expect(seen).toEqual([0, 1, 2]);
+    expect(fetchPage.mock.calls.map(([r]) => r.page)).toEqual([1, 2, 3]);
+    expect(fetchPage.mock.calls[2][0].signal.aborted).toBe(true);
+  });
+
+  it('honors startPage and maxPages', async () => {
+    const fetchPage = createFetcher(10);
+
+    const items = await new Paginator(fetchPage, { pageSize: 2, startPage: 2, maxPages: 2 }).toArray();
+
+    expect(items).toEqual([2, 3, 4, 5]);
+  });
+
+  it('propagates page errors', async () => {
+    const fetchPage = createFetcher(10);
+    fetchPage.mockResolvedValueOnce({
+      success: true,
+      message: 'OK',
+      data: [0, 1],
+      metadata: { total_count: 10, page_number: 1, total_pages: 5, page_size: 2 },
+    });
+    fetchPage.mockRejectedValueOnce(new Error('boom'));
+
+    await expect(new Paginator(fetchPage, { pageSize: 2 }).toArray()).rejects.toThrow('boom');
+  });
+
+  it('rejects with ABORT_ERROR when the signal aborts', async () => {
+    const controller = new AbortController();
+    const fetchPage = vi.fn(({ signal }: PageRequest) => new Promise<PaginatedResponse<number>>((_, reject) => {
+      signal.addEventListener('abort', () => reject(createAbortError(signal)), { once: true });
+    }));
+
+    const pending = new Paginator(fetchPage, { signal: controller.signal }).toArray();
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ code: 'ABORT_ERROR' });
+    await expect(new Paginator(fetchPage, { signal: controller.signal }).toArray())
+      .rejects.toMatchObject({ code: 'ABORT_ERROR' });
+  });
+
+  it('rejects invalid options', () => {
+    const fetchPage = createFetcher(0);
+
+    expect(() => new Paginator(fetchPage, { pageSize: 0 })).toThrow(ConfigurationError);
+    expect(() => new Paginator(fetchPage, { concurrency: 1.5 })).toThrow('concurrency must be a positive integer');
+  });
+});
@@ -0,0 +1,215 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import { PartnerClient } from '../src/client';
+import { ConfigurationError, TransportError } from '../src/errors';
+import { RateLimiter } from '../src/rate-limit';
+import type { TransportResponse } from '../src/transports';
+import { TEST_API_KEY, createMockTransport } from './utils';
+
+const OK_RESPONSE = { status: 200, headers: {}, data: {} };
+
+function deferred(): { promise: Promise<TransportResponse<unknown>>; resolve: () => void } {
+  let resolve!: () => void;
+  const promise = new Promise<TransportResponse<unknown>>((r) => {
+    resolve = () => r(OK_RESPONSE);
+  });
+  return { promise, resolve };
+}
+
+describe('RateLimiter', () => {
+  it('rejects non-positive limits', () => {
+    expect(() => new RateLimiter({ platform: { requestsPerSecond: 0 } })).toThrow(ConfigurationError);
+    expect(() => new RateLimiter({ asset: { maxConcurrent: -1 } })).toThrow('rateLimit.asset.maxConcurrent');
+    expect(() => new RateLimiter({ platform: { requestsPerSecond: 1, burst: 0.5 } })).toThrow('rateLimit.platform.burst');
+  });
+
+  it('does not limit traffic without a budget', async () => {
+    const limiter = new RateLimiter({ platform: { maxConcurrent: 1 } });
+
+    await limiter.acquire('asset');
+    await limiter.acquire('asset');
+  });
+});
+
+describe('PartnerClient rate limiting', () => {
+  let transport: ReturnType<typeof createMockTransport>;
+
+  beforeEach(() => {
+    transport = createMockTransport();
+    transport.request.mockResolvedValue(OK_RESPONSE);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('caps concurrent requests', async () => {
+    const client = new PartnerClient({ apiKey: TEST_API_KEY, transport, rateLimit: { platform: { maxConcurrent: 1 } } });
+    const first = deferred();
+    transport.request.mockReturnValueOnce(first.promise);
+
+    const a = client.taxonomy.getTree();
+    const b = client.taxonomy.getTree();
+    await vi.waitFor(() => expect(transport.request).toHaveBeenCalledTimes(1));
+    await new Promise((r) => setTimeout(r, 10));
+    expect(transport.request).toHaveBeenCalledTimes(1);
+
+    first.resolve();
+    await Promise.all([a, b]);
+    expect(transport.request).toHaveBeenCalledTimes(2);
+  });
+
+  it('spaces requests to the configured rate after the burst', async () => {
+    vi.useFakeTimers();
+    const client = new PartnerClient({
+      apiKey: TEST_API_KEY,
+      transport,
+      rateLimit: { platform: { requestsPerSecond: 2, burst: 1 } },
+    });
+
+    const requests = [client.taxonomy.getTree(), client.taxonomy.getTree(), client.taxonomy.getTree()];
+    await vi.advanceTimersByTimeAsync(0);
+    expect(transport.request).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(transport.request).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(500);
+    await Promise.all(requests);
+    expect(transport.request).toHaveBeenCalledTimes(3);
+  });
+
+  it('keeps platform and asset budgets separate', async () => {
+    const client = new PartnerClient({
+      apiKey: TEST_API_KEY,
+      transport,
+      rateLimit: { platform: { maxConcurrent: 1 }, asset: { maxConcurrent: 1 } },
+    });
+    const platform = deferred();
+    transport.request.mockReturnValueOnce(platform.promise);
+
+    const pending = client.taxonomy.getTree();
+    await client.images.getIntent('sr-uuid', 'side-uuid');
+
+    expect(transport.request).toHaveBeenCalledTimes(2);
+    platform.resolve();
+    await pending;
+  });
+
+  it('shares the budget with clients created by withOptions', async () => {
+    const client = new PartnerClient({ apiKey: TEST_API_KEY, transport, rateLimit: { platform: { maxConcurrent: 1 } } });
+    const first = deferred();
+    transport.request.mockReturnValueOnce(first.promise);
+
+    const a = client.taxonomy.getTree();
+    const b = client.withOptions({ timeout: 5 }).taxonomy.getTree();
+    await new Promise((r) => setTimeout(r, 10));
+    expect(transport.request).toHaveBeenCalledTimes(1);
+
+    first.resolve();
+    await Promise.all([a, b]);
+  });
+
+  it('shares a RateLimiter instance between clients', async () => {
+    const limiter = new RateLimiter({ platform: { maxConcurrent: 1 } });
+    const one = new PartnerClient({ apiKey: TEST_API_KEY, transport, rateLimit: limiter });
+    const two = new PartnerClient({ apiKey: TEST_API_KEY, transport, rateLimit: limiter });
+    const first = deferred();
+    transport.request.mockReturnValueOnce(first.promise);
+
+    const a = one.taxonomy.getTree();
+    const b = two.taxonomy.getTree();
+    await new Promise((r) => setTimeout(r, 10));
+    expect(transport.request).toHaveBeenCalledTimes(1);
+
+    first.resolve();
+    await Promise.all([a, b]);
+  });
+
+  it('pauses for Retry-After after a RATE_LIMIT_ERROR', async () => {
+    vi.useFakeTimers();
+    const client = new PartnerClient({
+      apiKey: TEST_API_KEY,
+      transport,
+      rateLimit: { platform: { requestsPerSecond: 100 } },
+    });
+    transport.request.mockRejectedValueOnce(new TransportError('http', 'Too many', {
+      status: 429,
+      headers: { 'retry-after': '2' },
+    }));
+
+    await expect(client.taxonomy.getTree()).rejects.toMatchObject({ code: 'RATE_LIMIT_ERROR' });
+    const next = client.taxonomy.getTree();
+
+    await vi.advanceTimersByTimeAsync(1_900);
+    expect(transport.request).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(200);
+    await next;
+    expect(transport.request).toHaveBeenCalledTimes(2);
+  });
+
+  it('caps the Retry-After pause at the retry maxDelay', async () => {
+    vi.useFakeTimers();
+    const client = new PartnerClient({
+      apiKey: TEST_API_KEY,
+      transport,
+      retry: { attempts: 1, maxDelay: 5_000 },
+      rateLimit: { platform: { requestsPerSecond: 100 } },
+    });
+    transport.request.mockRejectedValueOnce(new TransportError('http', 'Too many', {
+      status: 429,
+      headers: { 'retry-after': '7200' },
+    }));
+
+    await expect(client.taxonomy.getTree()).rejects.toMatchObject({ code: 'RATE_LIMIT_ERROR' });
+    const next = client.taxonomy.getTree();
+
+    await vi.advanceTimersByTimeAsync(5_100);
+    await next;
+    expect(transport.request).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops halving the rate after repeated RATE_LIMIT_ERRORs', async () => {
+    vi.useFakeTimers();
+    const client = new PartnerClient({
+      apiKey: TEST_API_KEY,
+      transport,
+      rateLimit: { platform: { requestsPerSecond: 16, burst: 1 } },
+    });
+    transport.request.mockRejectedValue(new TransportError('http', 'Too many', {
+      status: 429,
+      headers: { 'retry-after': '0' },
+    }));
+
+    // At the floor of 1/16 of the configured rate, every wait is at most one second
+    for (let i = 0; i < 10; i++) {
+      const attempt = expect(client.taxonomy.getTree()).rejects.toMatchObject({ code: 'RATE_LIMIT_ERROR' });
+      await vi.advanceTimersByTimeAsync(1_000);
+      await attempt;
+    }
+    expect(transport.request).toHaveBeenCalledTimes(10);
+
+    transport.request.mockResolvedValue(OK_RESPONSE);
+    const next = client.taxonomy.getTree();
+    await vi.advanceTimersByTimeAsync(1_000);
+    await next;
+    expect(transport.request).toHaveBeenCalledTimes(11);
+  });
+
+  it('rejects queued requests when their signal aborts', async () => {
+    const client = new PartnerClient({ apiKey: TEST_API_KEY, transport, rateLimit: { platform: { maxConcurrent: 1 } } });
+    const first = deferred();
+    transport.request.mockReturnValueOnce(first.promise);
+    const controller = new AbortController();
+
+    const a = client.taxonomy.getTree();
+    const b = client.taxonomy.getTree({ signal: controller.signal });
+    controller.abort();
+
+    await expect(b).rejects.toMatchObject({ code: 'ABORT_ERROR' });
+    first.resolve();
+    await a;
+    expect(transport.request).toHaveBeenCalledTimes(1);
+  });
+});
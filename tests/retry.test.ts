@@ -0,0 +1,279 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { PartnerClient } from '../src/client';
+import { TransportError } from '../src/errors';
+import { getRetryDelay, parseRetryAfter, resolveRetryPolicy } from '../src/retry';
+import { TEST_API_KEY, createMockTransport } from './utils';
+import { FIXTURE_SERVICE_UUID, FIXTURE_CATEGORY, FIXTURE_BRAND, FIXTURE_SR } from './fixtures';
+
+const FAST_RETRY = { attempts: 3, delay: 1, jitter: false } as const;
+
+const OK_RESPONSE = { status: 200, headers: {}, data: { success: true } };
+
+const CREATE_REQUEST = {
+  service: FIXTURE_SERVICE_UUID,
+  item: { category: FIXTURE_CATEGORY.uuid, type: FIXTURE_CATEGORY.types![0].uuid, brand: FIXTURE_BRAND.uuid },
+};
+
+function httpError(status: number, headers: Record<string, string> = {}): TransportError {
+  return new TransportError('http', `HTTP ${status}`, { status, headers });
+}
+
+describe('parseRetryAfter', () => {
+  it('parses delay-seconds', () => {
+    expect(parseRetryAfter('3')).toBe(3000);
+  });
+
+  it('parses HTTP-date relative to now', () => {
+    const now = Date.parse('2026-02-06T04:48:00.000Z');
+
+    expect(parseRetryAfter('Fri, 06 Feb 2026 04:48:05 GMT', now)).toBe(5000);
+  });
+
+  it('returns undefined for missing or invalid values', () => {
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
+
+describe('getRetryDelay', () => {
+  it('backs off exponentially without jitter', () => {
+    const policy = resolveRetryPolicy({ delay: 100, jitter: false })!;
+
+    expect(getRetryDelay(policy, 1)).toBe(100);
+    expect(getRetryDelay(policy, 2)).toBe(200);
+    expect(getRetryDelay(policy, 3)).toBe(400);
+  });
+
+  it('keeps jittered delays between half and full backoff', () => {
+    const policy = resolveRetryPolicy({ delay: 100 })!;
+
+    for (let i = 0; i < 20; i++) {
+      const delay = getRetryDelay(policy, 2);
+      expect(delay).toBeGreaterThanOrEqual(100);
+      expect(delay).toBeLessThanOrEqual(200);
+    }
+  });
+
+  it('prefers Retry-After capped at maxDelay', () => {
+    const policy = resolveRetryPolicy({ delay: 100, maxDelay: 5000 })!;
+
+    expect(getRetryDelay(policy, 1, 2000)).toBe(2000);
+    expect(getRetryDelay(policy, 1, 60_000)).toBe(5000);
+  });
+
+  it('treats false and undefined as disabled', () => {
+    expect(resolveRetryPolicy(false)).toBeUndefined();
+    expect(resolveRetryPolicy(undefined)).toBeUndefined();
+    expect(resolveRetryPolicy(true)?.attempts).toBe(3);
+  });
+});
+
+describe('PartnerClient automatic retries', () => {
+  let transport: ReturnType<typeof createMockTransport>;
+
+  beforeEach(() => {
+    transport = createMockTransport();
+  });
+
+  it('does not retry when no policy is configured', async () => {
+    const client = new PartnerClient({ apiKey: TEST_API_KEY, transport });
+    transport.request.mockRejectedValue(httpError(503));
+
+    await expect(client.taxonomy.getTree()).rejects.toMatchObject({ code: 'SERVER_ERROR' });
+    expect(transport.request).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries idempotent GETs on retryable errors', async () => {
+    const onRetry = vi.fn();
+    const client = new PartnerClient({ apiKey: TEST_API_KEY, transport, retry: { ...FAST_RETRY, onRetry } });
+    transport.request
+      .mockRejectedValueOnce(httpError(502))
+      .mockRejectedValueOnce(new TransportError('network', 'ECONNRESET'))
+      .mockResolvedValue(OK_RESPONSE);
+
+    const result = await client.taxonomy.getTree();
+
+    expect(result).toEqual({ success: true });
+    expect(transport.request).toHaveBeenCalledTimes(3);
+    expect(onRetry).toHaveBeenCalledTimes(2);
+    expect(onRetry.mock.calls[0][0].code).toBe('SERVER_ERROR');
+  });
+
+  it('stops after the configured number of attempts', async () => {
+    const client = new PartnerClient({ apiKey: TEST_API_KEY, transport, retry: FAST_RETRY });
+    transport.request.mockRejectedValue(httpError(500));
+
+    await expect(client.taxonomy.getTree()).rejects.toMatchObject({ code: 'SERVER_ERROR' });
+    expect(transport.request).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry non-retryable errors', async () => {
+    const client = new PartnerClient({ apiKey: TEST_API_KEY, transport, retry: FAST_RETRY });
+    transport.request.mockRejectedValue(httpError(404));
+
+    await expect(client.taxonomy.getTree()).rejects.toMatchObject({ code: 'NOT_FOUND_ERROR' });
+    expect(transport.request).toHaveBeenCalledTimes(1);
+  });
+
+  it('honors Retry-After on 429', async () => {
+    const onRetry = vi.fn();
+    const client = new PartnerClient({
+      apiKey: TEST_API_KEY,
+      transport,
+      retry: { ...FAST_RETRY, delay: 10_000, onRetry },
+    });
+    transport.request
+      .mockRejectedValueOnce(httpError(429, { 'retry-after': '0' }))
+      .mockResolvedValue(OK_RESPONSE);
+
+    await client.taxonomy.getTree();
+
+    expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ code: 'RATE_LIMIT_ERROR' }), 1, 0);
+  });
+
+  it('exposes Retry-After on the error context', async () => {
+    const client = new PartnerClient({ apiKey: TEST_API_KEY, transport });
+    transport.request.mockRejectedValue(httpError(503, { 'retry-after': '7' }));
+
+    await expect(client.taxonomy.getTree()).rejects.toMatchObject({ context: { retryAfterMs: 7000 } });
+  });
+
+  it('does not retry POSTs without an idempotency key', async () => {
+    const client = new PartnerClient({ apiKey: TEST_API_KEY, transport, retry: FAST_RETRY });
+    transport.request.mockRejectedValue(httpError(503));
+
+    await expect(client._post('/api/v2/sr', CREATE_REQUEST)).rejects.toMatchObject({ code: 'SERVER_ERROR' });
+    expect(transport.request).toHaveBeenCalledTimes(1);
+  });
+
+  it('generates an idempotency key for sr.create and retries with it', async () => {
+    const client = new PartnerClient({ apiKey: TEST_API_KEY, transport, retry: FAST_RETRY });
+    transport.request
+      .mockRejectedValueOnce(new TransportError('timeout', 'timed out'))
+      .mockResolvedValue({ status: 201, headers: {}, data: { sr: FIXTURE_SR } });
+
+    await client.sr.create(CREATE_REQUEST);
+
+    const [first, second] = transport.request.mock.calls.map(([request]) => request);
+    expect(first.headers['Idempotency-Key']).toEqual(expect.any(String));
+    expect(second.headers['Idempotency-Key']).toBe(first.headers['Idempotency-Key']);
+  });
+
+  it('sends sr.update as a PATCH and retries it with the same idempotency key', async () => {
+    const client = new PartnerClient({ apiKey: TEST_API_KEY, transport, retry: FAST_RETRY });
+    transport.request
+      .mockResolvedValueOnce({ status: 200, headers: {}, data: { sr: FIXTURE_SR } })
+      .mockRejectedValueOnce(new TransportError('timeout', 'timed out'))
+      .mockResolvedValueOnce({ status: 200, headers: {}, data: { sr: FIXTURE_SR } });
+
+    await client.sr.update(FIXTURE_SR.uuid, { external_id: 'inv-42' });
+
+    const [, first, second] = transport.request.mock.calls.map(([request]) => request);
+    expect(first).toMatchObject({ method: 'PATCH', body: { external_id: 'inv-42' } });
+    expect(second.headers['Idempotency-Key']).toBe(first.headers['Idempotency-Key']);
+  });
+
+  it('omits the idempotency key when retries are off', async () => {
+    const client = new PartnerClient({ apiKey: TEST_API_KEY, transport });
+    transport.request.mockResolvedValue({ status: 201, headers: {}, data: { sr: FIXTURE_SR } });
+
+    await client.sr.create(CREATE_REQUEST);
+
+    expect(transport.request.mock.calls[0][0].headers).not.toHaveProperty('Idempotency-Key');
+  });
+
+  it('returns the SR found by external_id instead of retrying create', async () => {
+    const client = new PartnerClient({ apiKey: TEST_API_KEY, transport, retry: FAST_RETRY });
+    const existing = { ...FIXTURE_SR, external_id: 'inv-42', created_at: new Date(Date.now() + 1000).toISOString() };
+    transport.request
+      .mockRejectedValueOnce(new TransportError('timeout', 'timed out'))
+      .mockResolvedValueOnce({ status: 200, headers: {}, data: { data: [existing] } });
+
+    const result = await client.sr.create({ ...CREATE_REQUEST, external_id: 'inv-42' });
+
+    expect(result.sr).toEqual(existing);
+    expect(transport.request).toHaveBeenCalledTimes(2);
+    expect(transport.request.mock.calls[1][0].url).toContain('/api/v2/sr?external_id=inv-42&created_after=');
+  });
+
+  it('creates a new SR when only an older one shares the external_id', async () => {
+    const client = new PartnerClient({ apiKey: TEST_API_KEY, transport, retry: FAST_RETRY });
+    const older = { ...FIXTURE_SR, uuid: 'older-sr', external_id: 'inv-42' };
+    transport.request
+      .mockRejectedValueOnce(httpError(503))
+      .mockResolvedValueOnce({ status: 200, headers: {}, data: { data: [older] } })
+      .mockResolvedValueOnce({ status: 201, headers: {}, data: { sr: FIXTURE_SR } });
+
+    const result = await client.sr.create({ ...CREATE_REQUEST, external_id: 'inv-42' });
+
+    expect(result.sr.uuid).toBe(FIXTURE_SR.uuid);
+    expect(transport.request).toHaveBeenCalledTimes(3);
+  });
+
+  it('stops retrying create when several new SRs share the external_id', async () => {
+    const client = new PartnerClient({ apiKey: TEST_API_KEY, transport, retry: FAST_RETRY });
+    const createdAt = new Date(Date.now() + 1000).toISOString();
+    transport.request
+      .mockRejectedValueOnce(httpError(503))
+      .mockResolvedValueOnce({
+        status: 200,
+        headers: {},
+        data: {
+          data: [
+            { ...FIXTURE_SR, external_id: 'inv-42', created_at: createdAt },
+            { ...FIXTURE_SR, uuid: 'second-sr', external_id: 'inv-42', created_at: createdAt },
+          ],
+        },
+      });
+
+    await expect(client.sr.create({ ...CREATE_REQUEST, external_id: 'inv-42' }))
+      .rejects.toMatchObject({ code: 'AMBIGUOUS_MATCH_ERROR' });
+    expect(transport.request).toHaveBeenCalledTimes(2);
+  });
+
+  it('retries create when no SR matches external_id', async () => {
+    const client = new PartnerClient({ apiKey: TEST_API_KEY, transport, retry: FAST_RETRY });
+    transport.request
+      .mockRejectedValueOnce(httpError(503))
+      .mockResolvedValueOnce({ status: 200, headers: {}, data: { data: [] } })
+      .mockResolvedValueOnce({ status: 201, headers: {}, data: { sr: FIXTURE_SR } });
+
+    const result = await client.sr.create({ ...CREATE_REQUEST, external_id: 'inv-43' });
+
+    expect(result.sr.uuid).toBe(FIXTURE_SR.uuid);
+    expect(transport.request).toHaveBeenCalledTimes(3);
+  });
+
+  it('retries signed-URL uploads', async () => {
+    const client = new PartnerClient({ apiKey: TEST_API_KEY, transport, retry: FAST_RETRY });
+    transport.request
+      .mockRejectedValueOnce(new TransportError('timeout', 'timed out'))
+      .mockResolvedValue({ status: 200, headers: {}, data: undefined });
+
+    await client.images.upload('https://bucket.example.com/key?sig=1', Buffer.from([1]));
+
+    expect(transport.request).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops waiting between attempts when the signal aborts', async () => {
+    const client = new PartnerClient({ apiKey: TEST_API_KEY, transport, retry: { delay: 60_000, jitter: false } });
+    const controller = new AbortController();
+    transport.request.mockRejectedValue(httpError(503));
+
+    const pending = client.taxonomy.getTree({ signal: controller.signal });
+    await vi.waitFor(() => expect(transport.request).toHaveBeenCalledTimes(1));
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ code: 'ABORT_ERROR' });
+    expect(transport.request).toHaveBeenCalledTimes(1);
+  });
+
+  it('lets withOptions override the policy', async () => {
+    const client = new PartnerClient({ apiKey: TEST_API_KEY, transport, retry: FAST_RETRY });
+    transport.request.mockRejectedValue(httpError(503));
+
+    await expect(client.withOptions({ retry: false }).taxonomy.getTree()).rejects.toThrow();
+    expect(transport.request).toHaveBeenCalledTimes(1);
+  });
+});
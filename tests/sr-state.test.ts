@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+
+import {
+  SR_STATES,
+  canTransition,
+  describeState,
+  getStateInfo,
+  isActionable,
+  isKnownState,
+  isTerminal,
+} from '../src/sr-state';
+
+describe('SR state machine', () => {
+  it('only transitions to states it defines', () => {
+    for (const state of SR_STATES) {
+      for (const next of state.next) {
+        expect(getStateInfo(next), `${state.primary}/${state.supplement} → ${next.primary}/${next.supplement}`)
+          .toBeDefined();
+      }
+      expect(state.next.length === 0).toBe(state.terminal);
+    }
+  });
+
+  it('tells known states from ones added after this SDK version', () => {
+    expect(isKnownState({ primary: 'QC', supplement: 'PENDING' })).toBe(true);
+    expect(isKnownState({ primary: 'DRAFT', supplement: null })).toBe(true);
+    expect(isKnownState({ primary: 'ON_HOLD', supplement: null })).toBe(false);
+    expect(isKnownState({ primary: 'QC', supplement: 'ESCALATED' })).toBe(false);
+  });
+
+  it('validates transitions', () => {
+    expect(canTransition({ primary: 'QC', supplement: 'PENDING' }, { primary: 'QC', supplement: 'REJECTED' })).toBe(true);
+    expect(canTransition({ primary: 'QC', supplement: 'REJECTED' }, { primary: 'QC', supplement: 'PENDING' })).toBe(true);
+    expect(canTransition({ primary: 'DRAFT', supplement: null }, { primary: 'COMPLETE', supplement: 'APPROVED' })).toBe(false);
+    expect(canTransition({ primary: 'CANCELLED', supplement: null }, { primary: 'DRAFT', supplement: null })).toBe(false);
+  });
+
+  it('flags terminal and actionable states', () => {
+    expect(isTerminal({ primary: 'COMPLETE', supplement: 'REJECTED' })).toBe(true);
+    expect(isTerminal({ primary: 'COMPLETE', supplement: 'COMPLETE' })).toBe(true);
+    expect(isTerminal({ primary: 'UNDERWAY', supplement: 'ASSIGNED' })).toBe(false);
+    expect(isActionable({ primary: 'QC', supplement: 'REJECTED' })).toBe(true);
+    expect(isActionable({ primary: 'QC', supplement: 'APPROVED' })).toBe(false);
+  });
+
+  it('describes states, falling back to the primary state', () => {
+    expect(describeState({ primary: 'COMPLETE', supplement: 'APPROVED' })).toBe('The item was authenticated as genuine.');
+    expect(describeState({ primary: 'UNDERWAY', supplement: 'PENDING' })).toBe('Authentication is in progress.');
+  });
+});
@@ -1,12 +1,27 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
-
-import { ServiceRequests } from '../src/resources/sr';
+import { describe, it, expect, expectTypeOf, beforeEach, vi } from 'vitest';
+
+import { ServiceRequests, SR_VALIDATION_CODES } from '../src/resources/sr';
+import type {
+  Brand,
+  Category,
+  Model,
+  SROutcome,
+  SRPartner,
+  SRRisk,
+  SRService,
+  SRStage,
+  SRTab,
+  SRUser,
+  SRWorkflow,
+} from '../src/types';
+import { LegitmarkError } from '../src/errors';
 import type { ResourceClient } from '../src/resources/client';
 import { createMockClient } from './utils';
 import {
   FIXTURE_SR,
   FIXTURE_CATEGORY,
   FIXTURE_BRAND,
+  FIXTURE_MODEL,
   FIXTURE_SERVICE_UUID,
   FIXTURE_PROGRESS_DEFAULT,
   FIXTURE_PROGRESS_EMPTY,
@@ -16,6 +31,36 @@ import {
 
 const mockClient = createMockClient() as unknown as ResourceClient;
 
+const SNEAKERS = FIXTURE_CATEGORY.types![0];
+const APPAREL: Category = {
+  uuid: 'apparel-uuid',
+  name: 'Apparel',
+  active: true,
+  ordinal: 2,
+  types: [{ uuid: 'tshirts-uuid', name: 'T-Shirts', active: true, ordinal: 1 }],
+};
+
+/** Serve taxonomy lookups made through the cache-aware GET */
+function mockTaxonomy(
+  { categories = [FIXTURE_CATEGORY, APPAREL], brands = [FIXTURE_BRAND], models = [FIXTURE_MODEL] }:
+  { categories?: Category[]; brands?: Brand[]; models?: Model[] } = {}
+): void {
+  vi.mocked(mockClient._getCached).mockImplementation(async (endpoint: string) => {
+    if (endpoint === '/api/v2/categories/tree') return { success: true, data: categories };
+    if (endpoint.endsWith('/models')) return { success: true, data: models };
+    return { success: true, data: brands };
+  });
+}
+
+const CREATE_REQUEST = {
+  service: FIXTURE_SERVICE_UUID,
+  item: {
+    category: FIXTURE_CATEGORY.uuid,
+    type: FIXTURE_CATEGORY.types![0].uuid,
+    brand: FIXTURE_BRAND.uuid,
+  },
+};
+
 describe('ServiceRequests', () => {
   let sr: ServiceRequests;
 
@@ -41,10 +86,96 @@ describe('ServiceRequests', () => {
 
       const result = await sr.create(request);
 
-      expect(mockClient._post).toHaveBeenCalledWith('/api/v2/sr', request);
+      expect(mockClient._post).toHaveBeenCalledWith('/api/v2/sr', request, {
+        idempotencyKey: undefined,
+        autoIdempotencyKey: true,
+        recover: expect.any(Function),
+        signal: undefined,
+      });
       expect(result).toEqual(mockResponse);
     });
 
+    it('sends an optional model with the item', async () => {
+      vi.mocked(mockClient._post).mockResolvedValue({ success: true });
+
+      await sr.create({ ...CREATE_REQUEST, item: { ...CREATE_REQUEST.item, model: FIXTURE_MODEL.uuid } });
+
+      expect(mockClient._post).toHaveBeenCalledWith(
+        '/api/v2/sr',
+        expect.objectContaining({ item: expect.objectContaining({ model: FIXTURE_MODEL.uuid }) }),
+        expect.anything()
+      );
+    });
+
+    it('passes an explicit idempotency key', async () => {
+      vi.mocked(mockClient._post).mockResolvedValue({ success: true });
+
+      await sr.create(CREATE_REQUEST, { idempotencyKey: 'key-123' });
+
+      expect(mockClient._post).toHaveBeenCalledWith('/api/v2/sr', CREATE_REQUEST, expect.objectContaining({
+        idempotencyKey: 'key-123',
+        recover: undefined,
+      }));
+    });
+
+    it('recovers an SR created since the first attempt by external_id', async () => {
+      const createdAt = new Date(Date.now() + 1000).toISOString();
+      vi.mocked(mockClient._post).mockResolvedValue({ success: true });
+      vi.mocked(mockClient._get).mockResolvedValue({
+        data: [{ ...FIXTURE_SR, external_id: 'ext-123', created_at: createdAt }],
+      });
+
+      await sr.create({ ...CREATE_REQUEST, external_id: 'ext-123' });
+      const { recover } = vi.mocked(mockClient._post).mock.calls[0][2]!;
+      const recovered = await recover!();
+
+      expect(mockClient._get).toHaveBeenCalledWith(
+        '/api/v2/sr',
+        { external_id: 'ext-123', created_after: expect.any(String) },
+        { signal: undefined }
+      );
+      expect(recovered).toMatchObject({ sr: { uuid: FIXTURE_SR.uuid } });
+    });
+
+    it('does not recover an older SR that reuses the external_id', async () => {
+      const before = Date.now();
+      vi.mocked(mockClient._post).mockResolvedValue({ success: true });
+      vi.mocked(mockClient._get).mockResolvedValue({ data: [{ ...FIXTURE_SR, external_id: 'ext-123' }] });
+
+      await sr.create({ ...CREATE_REQUEST, external_id: 'ext-123' });
+      const { recover } = vi.mocked(mockClient._post).mock.calls[0][2]!;
+
+      expect(await recover!()).toBeUndefined();
+      const params = vi.mocked(mockClient._get).mock.calls[0][1]!;
+      expect(Date.parse(params.created_after)).toBeGreaterThanOrEqual(before);
+    });
+
+    it('throws AMBIGUOUS_MATCH_ERROR when several SRs were created since the first attempt', async () => {
+      const createdAt = new Date(Date.now() + 1000).toISOString();
+      vi.mocked(mockClient._post).mockResolvedValue({ success: true });
+      vi.mocked(mockClient._get).mockResolvedValue({
+        data: [
+          { ...FIXTURE_SR, external_id: 'ext-123', created_at: createdAt },
+          { ...FIXTURE_SR, uuid: 'second-sr', external_id: 'ext-123', created_at: createdAt },
+        ],
+      });
+
+      await sr.create({ ...CREATE_REQUEST, external_id: 'ext-123' });
+      const { recover } = vi.mocked(mockClient._post).mock.calls[0][2]!;
+
+      await expect(recover!()).rejects.toMatchObject({ code: 'AMBIGUOUS_MATCH_ERROR' });
+    });
+
+    it('recovers nothing when no SR matches external_id', async () => {
+      vi.mocked(mockClient._post).mockResolvedValue({ success: true });
+      vi.mocked(mockClient._get).mockResolvedValue({ data: [] });
+
+      await sr.create({ ...CREATE_REQUEST, external_id: 'ext-404' });
+      const { recover } = vi.mocked(mockClient._post).mock.calls[0][2]!;
+
+      expect(await recover!()).toBeUndefined();
+    });
+
     it('handles creation error', async () => {
       vi.mocked(mockClient._post).mockRejectedValue(new Error('Invalid item'));
 
@@ -59,6 +190,174 @@ describe('ServiceRequests', () => {
     });
   });
 
+  describe('validateRequest', () => {
+    it('returns no errors for a valid request', async () => {
+      mockTaxonomy();
+
+      expect(await sr.validateRequest({ ...CREATE_REQUEST, item: { ...CREATE_REQUEST.item, model: FIXTURE_MODEL.uuid } }))
+        .toEqual([]);
+      expect(mockClient._getCached).toHaveBeenCalledWith('/api/v2/categories/tree', {}, { signal: undefined });
+    });
+
+    it('reports missing fields without fetching the taxonomy', async () => {
+      const errors = await sr.validateRequest({ service: '', item: { category: '', type: '', brand: '' } });
+
+      expect(errors.map(e => e.message)).toEqual([
+        'service is required',
+        'item.category is required',
+        'item.type is required',
+        'item.brand is required',
+      ]);
+      expect(errors.every(e => e.code === SR_VALIDATION_CODES.MISSING_FIELD)).toBe(true);
+      expect(mockClient._getCached).not.toHaveBeenCalled();
+    });
+
+    it('reports a type that is under another category', async () => {
+      mockTaxonomy();
+
+      const errors = await sr.validateRequest({ ...CREATE_REQUEST, item: { ...CREATE_REQUEST.item, category: APPAREL.uuid } });
+
+      expect(errors).toEqual([{
+        code: SR_VALIDATION_CODES.TYPE_NOT_IN_CATEGORY,
+        message: `Type ${SNEAKERS.uuid} belongs to category Footwear, not Apparel`,
+      }]);
+    });
+
+    it('names the owning category of a known type when the category is unknown', async () => {
+      mockTaxonomy();
+
+      const errors = await sr.validateRequest({ ...CREATE_REQUEST, item: { ...CREATE_REQUEST.item, category: 'nope' } });
+
+      expect(errors).toEqual([
+        { code: SR_VALIDATION_CODES.UNKNOWN_CATEGORY, message: 'Category nope does not exist' },
+        { code: SR_VALIDATION_CODES.TYPE_NOT_IN_CATEGORY, message: `Type ${SNEAKERS.uuid} belongs to category Footwear` },
+      ]);
+    });
+
+    it('reports unknown categories and types', async () => {
+      mockTaxonomy();
+
+      const errors = await sr.validateRequest({ ...CREATE_REQUEST, item: { ...CREATE_REQUEST.item, category: 'nope', type: 'nope' } });
+
+      expect(errors.map(e => e.code)).toEqual([SR_VALIDATION_CODES.UNKNOWN_CATEGORY, SR_VALIDATION_CODES.UNKNOWN_TYPE]);
+    });
+
+    it('reports inactive entries', async () => {
+      mockTaxonomy({
+        categories: [{ ...FIXTURE_CATEGORY, active: false, types: [{ ...SNEAKERS, active: false }] }],
+        brands: [{ ...FIXTURE_BRAND, active: false }],
+      });
+
+      const errors = await sr.validateRequest(CREATE_REQUEST);
+
+      expect(errors.map(e => e.code)).toEqual([
+        SR_VALIDATION_CODES.INACTIVE_CATEGORY,
+        SR_VALIDATION_CODES.INACTIVE_TYPE,
+        SR_VALIDATION_CODES.INACTIVE_BRAND,
+      ]);
+    });
+
+    it('reports a brand not offered for the type', async () => {
+      mockTaxonomy({ brands: [] });
+
+      const errors = await sr.validateRequest(CREATE_REQUEST);
+
+      expect(errors).toEqual([{
+        code: SR_VALIDATION_CODES.BRAND_NOT_FOR_TYPE,
+        message: `Brand ${FIXTURE_BRAND.uuid} is not available for type Sneakers`,
+      }]);
+    });
+
+    it('reports a model not offered for the brand', async () => {
+      mockTaxonomy({ models: [] });
+
+      const errors = await sr.validateRequest({ ...CREATE_REQUEST, item: { ...CREATE_REQUEST.item, model: 'other-model' } });
+
+      expect(errors.map(e => e.code)).toEqual([SR_VALIDATION_CODES.MODEL_NOT_FOR_BRAND]);
+    });
+  });
+
+  describe('create with validate', () => {
+    it('throws VALIDATION_ERROR without sending the request', async () => {
+      mockTaxonomy({ brands: [] });
+
+      const error = await sr.create(CREATE_REQUEST, { validate: true }).catch(e => e);
+
+      expect(error.code).toBe('VALIDATION_ERROR');
+      expect(error.context.details.errors).toEqual([expect.objectContaining({ code: SR_VALIDATION_CODES.BRAND_NOT_FOR_TYPE })]);
+      expect(mockClient._post).not.toHaveBeenCalled();
+    });
+
+    it('sends a valid request', async () => {
+      mockTaxonomy();
+      vi.mocked(mockClient._post).mockResolvedValue({ success: true });
+
+      await sr.create(CREATE_REQUEST, { validate: true });
+
+      expect(mockClient._post).toHaveBeenCalledWith('/api/v2/sr', CREATE_REQUEST, expect.anything());
+    });
+  });
+
+  describe('list', () => {
+    it('sends filters as query params', async () => {
+      vi.mocked(mockClient._get).mockResolvedValueOnce({ success: true, data: [FIXTURE_SR] });
+
+      const result = await sr.list({
+        state: ['QC', 'UNDERWAY'],
+        supplement: 'PENDING',
+        external_id: 'ext-123',
+        created_after: new Date('2026-01-01T00:00:00Z'),
+        created_before: '2026-02-01',
+        tab: 'active',
+        source: 'api',
+        page: 2,
+        pageSize: 50,
+      });
+
+      expect(result.data).toEqual([FIXTURE_SR]);
+      expect(mockClient._get).toHaveBeenCalledWith('/api/v2/sr', {
+        state: 'QC,UNDERWAY',
+        supplement: 'PENDING',
+        external_id: 'ext-123',
+        created_after: '2026-01-01T00:00:00.000Z',
+        created_before: '2026-02-01T00:00:00.000Z',
+        tab: 'active',
+        source: 'api',
+        page_number: '2',
+        page_size: '50',
+      }, { signal: undefined });
+    });
+
+    it('pages by cursor instead of page number', async () => {
+      vi.mocked(mockClient._get).mockResolvedValueOnce({ success: true, data: [], next_cursor: null });
+
+      await sr.list({ cursor: 'abc', page: 3 });
+
+      expect(mockClient._get).toHaveBeenCalledWith('/api/v2/sr', { cursor: 'abc' }, { signal: undefined });
+    });
+
+    it('rejects invalid dates', async () => {
+      await expect(sr.list({ created_after: 'yesterday' })).rejects.toThrow('created_after must be a valid date');
+      expect(() => sr.listAll({ created_before: new Date('nope') })).toThrow('created_before must be a valid date');
+    });
+
+    it('iterates every page with listAll', async () => {
+      const second = { ...FIXTURE_SR, uuid: 'second-sr' };
+      vi.mocked(mockClient._get)
+        .mockResolvedValueOnce({ success: true, data: [FIXTURE_SR], metadata: { total_pages: 2 } })
+        .mockResolvedValueOnce({ success: true, data: [second], metadata: { total_pages: 2 } });
+
+      const all = await sr.listAll({ state: 'COMPLETE', pageSize: 1 }).toArray();
+
+      expect(all.map(s => s.uuid)).toEqual([FIXTURE_SR.uuid, 'second-sr']);
+      expect(mockClient._get).toHaveBeenLastCalledWith(
+        '/api/v2/sr',
+        { state: 'COMPLETE', page_number: '2', page_size: '1' },
+        { signal: expect.any(AbortSignal) }
+      );
+    });
+  });
+
   describe('get', () => {
     it('fetches SR without options', async () => {
       const mockResponse = { success: true, sr: { uuid: FIXTURE_SR.uuid } };
@@ -66,7 +365,7 @@ describe('ServiceRequests', () => {
 
       const result = await sr.get(FIXTURE_SR.uuid);
 
-      expect(mockClient._get).toHaveBeenCalledWith(`/api/v2/sr/${FIXTURE_SR.uuid}`, {});
+      expect(mockClient._get).toHaveBeenCalledWith(`/api/v2/sr/${FIXTURE_SR.uuid}`, {}, { signal: undefined });
       expect(result).toEqual(mockResponse);
     });
 
@@ -79,7 +378,47 @@ describe('ServiceRequests', () => {
         requirements: 'true',
         sides: 'true',
         item: 'true',
+      }, { signal: undefined });
+    });
+
+    it('returns the included fields with their types', async () => {
+      const outcome = { verdict: 'APPROVED', decided_at: '2026-01-02T00:00:00Z' } as const;
+      const stages = [{ uuid: 'stage-1', name: 'Authentication', ordinal: 1, status: 'COMPLETE' }] as const;
+      vi.mocked(mockClient._get).mockResolvedValueOnce({ success: true, sr: { ...FIXTURE_SR, outcome, stages } });
+
+      const { sr: result } = await sr.get(FIXTURE_SR.uuid, { outcome: true, stages: true });
+
+      expectTypeOf(result.outcome).toEqualTypeOf<SROutcome | null>();
+      expectTypeOf(result.stages).toEqualTypeOf<readonly SRStage[]>();
+      expectTypeOf(result.risk).toEqualTypeOf<SRRisk | null | undefined>();
+      expect(result.outcome?.verdict).toBe('APPROVED');
+      expect(result.stages[0].status).toBe('COMPLETE');
+      expect(mockClient._get).toHaveBeenCalledWith(`/api/v2/sr/${FIXTURE_SR.uuid}`, {
+        outcome: 'true',
+        stages: 'true',
+      }, { signal: undefined });
+    });
+
+    it('replaces user, tab and service with their included details', async () => {
+      const included = {
+        user: { uuid: 'user-1', name: 'Dana' },
+        tab: { name: FIXTURE_SR.tab, label: 'In review' },
+        service: { uuid: 'service-1', name: 'Standard' },
+        workflows: [{ uuid: 'workflow-1', name: 'Sneakers', version: 3, active: true }],
+        partner: { uuid: 'partner-1', name: 'Resale Co' },
+      };
+      vi.mocked(mockClient._get).mockResolvedValueOnce({ success: true, sr: { ...FIXTURE_SR, ...included } });
+
+      const { sr: result } = await sr.get(FIXTURE_SR.uuid, {
+        user: true, tab: true, service: true, workflows: true, partner: true,
       });
+
+      expectTypeOf(result.user).toEqualTypeOf<SRUser>();
+      expectTypeOf(result.tab).toEqualTypeOf<SRTab>();
+      expectTypeOf(result.service).toEqualTypeOf<SRService>();
+      expectTypeOf(result.workflows).toEqualTypeOf<readonly SRWorkflow[]>();
+      expectTypeOf(result.partner).toEqualTypeOf<SRPartner>();
+      expect(result).toMatchObject(included);
     });
 
     it('ignores false options', async () => {
@@ -89,10 +428,148 @@ describe('ServiceRequests', () => {
 
       expect(mockClient._get).toHaveBeenCalledWith(`/api/v2/sr/${FIXTURE_SR.uuid}`, {
         requirements: 'true',
+      }, { signal: undefined });
+    });
+  });
+
+  describe('getByExternalId / getByMicroId', () => {
+    const SR_WITH_EXTERNAL_ID = { ...FIXTURE_SR, external_id: 'inv-42' };
+
+    it('finds the SR then fetches it with the includes', async () => {
+      const getResponse = { success: true, sr: SR_WITH_EXTERNAL_ID };
+      vi.mocked(mockClient._get)
+        .mockResolvedValueOnce({ success: true, data: [SR_WITH_EXTERNAL_ID] })
+        .mockResolvedValueOnce(getResponse);
+
+      const result = await sr.getByExternalId('inv-42', { outcome: true });
+
+      expect(result).toEqual(getResponse);
+      expect(mockClient._get).toHaveBeenNthCalledWith(1, '/api/v2/sr', { external_id: 'inv-42' }, { signal: undefined });
+      expect(mockClient._get).toHaveBeenNthCalledWith(2, `/api/v2/sr/${FIXTURE_SR.uuid}`, { outcome: 'true' }, {
+        signal: undefined,
+      });
+    });
+
+    it('looks up by micro_id', async () => {
+      vi.mocked(mockClient._get)
+        .mockResolvedValueOnce({ success: true, data: [FIXTURE_SR] })
+        .mockResolvedValueOnce({ success: true, sr: FIXTURE_SR });
+
+      await sr.getByMicroId(FIXTURE_SR.micro_id);
+
+      expect(mockClient._get).toHaveBeenNthCalledWith(1, '/api/v2/sr', { micro_id: FIXTURE_SR.micro_id }, {
+        signal: undefined,
+      });
+    });
+
+    it('throws NOT_FOUND_ERROR when nothing matches exactly', async () => {
+      vi.mocked(mockClient._get).mockResolvedValueOnce({ success: true, data: [{ ...FIXTURE_SR, external_id: 'inv-420' }] });
+
+      const error = await sr.getByExternalId('inv-42').catch(e => e);
+
+      expect(error).toMatchObject({ code: 'NOT_FOUND_ERROR', message: 'No service request with external_id inv-42' });
+      expect(mockClient._get).toHaveBeenCalledTimes(1);
+    });
+
+    it('throws AMBIGUOUS_MATCH_ERROR when several SRs share the ID', async () => {
+      vi.mocked(mockClient._get).mockResolvedValueOnce({
+        success: true,
+        data: [SR_WITH_EXTERNAL_ID, { ...SR_WITH_EXTERNAL_ID, uuid: 'other-sr' }],
+      });
+
+      const error = await sr.getByExternalId('inv-42').catch(e => e);
+
+      expect(error.code).toBe('AMBIGUOUS_MATCH_ERROR');
+      expect(error.context.details.uuids).toEqual([FIXTURE_SR.uuid, 'other-sr']);
+    });
+  });
+
+  describe('cancel', () => {
+    function mockState(primary: string, supplement: string | null = null): void {
+      vi.mocked(mockClient._get).mockResolvedValueOnce({ success: true, sr: { ...FIXTURE_SR, state: { primary, supplement } } });
+    }
+
+    it('cancels an SR that has not started authentication', async () => {
+      const response = { success: true, sr: { uuid: FIXTURE_SR.uuid, state: { primary: 'CANCELLED', supplement: null } } };
+      mockState('QC', 'PENDING');
+      vi.mocked(mockClient._post).mockResolvedValueOnce(response);
+
+      const result = await sr.cancel(FIXTURE_SR.uuid, { reason: 'Listing withdrawn' });
+
+      expect(result).toEqual(response);
+      expect(mockClient._post).toHaveBeenCalledWith(`/api/v2/sr/${FIXTURE_SR.uuid}/cancel`, { reason: 'Listing withdrawn' }, {
+        idempotencyKey: undefined,
+        autoIdempotencyKey: true,
+        signal: undefined,
+      });
+    });
+
+    it('throws VALIDATION_ERROR without sending when the state forbids it', async () => {
+      mockState('COMPLETE', 'APPROVED');
+
+      const error = await sr.cancel(FIXTURE_SR.uuid).catch(e => e);
+
+      expect(error).toMatchObject({
+        code: 'VALIDATION_ERROR',
+        message: `Cannot cancel service request ${FIXTURE_SR.uuid} in state COMPLETE`,
+        context: { details: { state: { primary: 'COMPLETE', supplement: 'APPROVED' } } },
+      });
+      expect(mockClient._post).not.toHaveBeenCalled();
+    });
+
+    it('reports an API state conflict as VALIDATION_ERROR', async () => {
+      const conflict = new LegitmarkError('UNKNOWN_ERROR', 'SR is already underway', { context: { statusCode: 409 } });
+      mockState('QUEUE');
+      vi.mocked(mockClient._post).mockRejectedValueOnce(conflict);
+
+      const error = await sr.cancel(FIXTURE_SR.uuid).catch(e => e);
+
+      expect(error).toMatchObject({
+        code: 'VALIDATION_ERROR',
+        message: `Cannot cancel service request ${FIXTURE_SR.uuid}: SR is already underway`,
+        cause: conflict,
       });
     });
   });
 
+  describe('update', () => {
+    it('patches the changed fields', async () => {
+      const changes = { external_id: 'inv-42', summary: { style: 'Dunk Low', item_size: '10.5', item_condition: 'New' } };
+      vi.mocked(mockClient._get).mockResolvedValueOnce({ success: true, sr: FIXTURE_SR });
+      vi.mocked(mockClient._patch).mockResolvedValueOnce({ success: true, sr: { ...FIXTURE_SR, ...changes } });
+
+      const result = await sr.update(FIXTURE_SR.uuid, changes, { idempotencyKey: 'key-1' });
+
+      expect(result.sr.external_id).toBe('inv-42');
+      expect(mockClient._patch).toHaveBeenCalledWith(`/api/v2/sr/${FIXTURE_SR.uuid}`, changes, {
+        idempotencyKey: 'key-1',
+        autoIdempotencyKey: true,
+        signal: undefined,
+      });
+    });
+
+    it('throws VALIDATION_ERROR for a cancelled SR', async () => {
+      vi.mocked(mockClient._get).mockResolvedValueOnce({
+        success: true,
+        sr: { ...FIXTURE_SR, state: { primary: 'CANCELLED', supplement: null } },
+      });
+
+      await expect(sr.update(FIXTURE_SR.uuid, { source: 'store' })).rejects.toMatchObject({
+        code: 'VALIDATION_ERROR',
+        message: `Cannot update service request ${FIXTURE_SR.uuid} in state CANCELLED`,
+      });
+      expect(mockClient._patch).not.toHaveBeenCalled();
+    });
+
+    it('throws VALIDATION_ERROR when there is nothing to update', async () => {
+      await expect(sr.update(FIXTURE_SR.uuid, { summary: {} })).rejects.toMatchObject({
+        code: 'VALIDATION_ERROR',
+        message: 'Nothing to update',
+      });
+      expect(mockClient._get).not.toHaveBeenCalled();
+    });
+  });
+
   describe('getWithRequirements', () => {
     it('calls get with requirements options', async () => {
       vi.mocked(mockClient._get).mockResolvedValue({ success: true });
@@ -103,7 +580,7 @@ describe('ServiceRequests', () => {
         requirements: 'true',
         sides: 'true',
         item: 'true',
-      });
+      }, { signal: undefined });
     });
   });
 
@@ -116,7 +593,7 @@ describe('ServiceRequests', () => {
       expect(mockClient._get).toHaveBeenCalledWith(`/api/v2/sr/${FIXTURE_SR.uuid}`, {
         item: 'true',
         sides: 'true',
-      });
+      }, { signal: undefined });
     });
   });
 
@@ -173,6 +650,27 @@ describe('ServiceRequests', () => {
       expect(mockClient._get).toHaveBeenCalledTimes(3);
     });
 
+    it('stops polling when the signal aborts', async () => {
+      vi.mocked(mockClient._get).mockResolvedValue({
+        sr: { sides: { progress: FIXTURE_PROGRESS_EMPTY } },
+      });
+      const controller = new AbortController();
+
+      const pending = sr.waitForRequirements(FIXTURE_SR.uuid, {
+        pollInterval: 60_000,
+        signal: controller.signal,
+      });
+      await vi.waitFor(() => expect(mockClient._get).toHaveBeenCalledTimes(1));
+      controller.abort();
+
+      await expect(pending).rejects.toMatchObject({ code: 'ABORT_ERROR' });
+      expect(mockClient._get).toHaveBeenCalledWith(
+        `/api/v2/sr/${FIXTURE_SR.uuid}`,
+        { item: 'true', sides: 'true' },
+        { signal: controller.signal }
+      );
+    });
+
     it('throws on timeout', async () => {
       vi.mocked(mockClient._get).mockResolvedValue({
         sr: { sides: { progress: FIXTURE_PROGRESS_EMPTY } },
@@ -185,6 +683,84 @@ describe('ServiceRequests', () => {
     });
   });
 
+  describe('waitForState', () => {
+    function srIn(primary: string, supplement: string | null = null) {
+      return { success: true, sr: { ...FIXTURE_SR, state: { primary, supplement } } };
+    }
+
+    it('polls until the SR reaches a target state', async () => {
+      vi.mocked(mockClient._get)
+        .mockResolvedValueOnce(srIn('QC', 'PENDING'))
+        .mockResolvedValueOnce(srIn('QC', 'PENDING'))
+        .mockResolvedValueOnce(srIn('UNDERWAY', 'ASSIGNED'))
+        .mockResolvedValueOnce(srIn('COMPLETE', 'APPROVED'));
+      const onStateChange = vi.fn();
+
+      const result = await sr.waitForCompletion(FIXTURE_SR.uuid, {
+        pollInterval: 1,
+        include: { outcome: true },
+        onStateChange,
+      });
+
+      expect(result.state).toEqual({ primary: 'COMPLETE', supplement: 'APPROVED' });
+      expect(mockClient._get).toHaveBeenCalledTimes(4);
+      expect(mockClient._get).toHaveBeenCalledWith(`/api/v2/sr/${FIXTURE_SR.uuid}`, { outcome: 'true' }, { signal: undefined });
+      expect(onStateChange.mock.calls.map(([s, previous]) => [s.state.primary, previous?.primary])).toEqual([
+        ['QC', undefined],
+        ['UNDERWAY', 'QC'],
+        ['COMPLETE', 'UNDERWAY'],
+      ]);
+    });
+
+    it('accepts a predicate', async () => {
+      vi.mocked(mockClient._get)
+        .mockResolvedValueOnce(srIn('QC', 'PENDING'))
+        .mockResolvedValueOnce(srIn('QC', 'APPROVED'));
+
+      const result = await sr.waitForState(FIXTURE_SR.uuid, (s) => s.state.supplement === 'APPROVED', { pollInterval: 1 });
+
+      expect(result.state.supplement).toBe('APPROVED');
+    });
+
+    it('backs off between polls', async () => {
+      vi.useFakeTimers();
+      try {
+        const start = Date.now();
+        const pollTimes: number[] = [];
+        vi.mocked(mockClient._get).mockImplementation(async () => {
+          pollTimes.push(Date.now() - start);
+          return srIn('UNDERWAY', 'ASSIGNED');
+        });
+
+        const pending = sr.waitForState(FIXTURE_SR.uuid, 'COMPLETE', {
+          pollInterval: 100,
+          backoffFactor: 2,
+          maxPollInterval: 300,
+          maxWait: 1000,
+        }).catch(e => e);
+        await vi.advanceTimersByTimeAsync(1000);
+
+        expect((await pending).code).toBe('TIMEOUT_ERROR');
+        expect(pollTimes).toEqual([0, 100, 300, 600, 900, 1000]);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('throws TIMEOUT_ERROR with the last known state', async () => {
+      vi.mocked(mockClient._get).mockResolvedValue(srIn('UNDERWAY', 'ASSIGNED'));
+
+      const error = await sr.waitForState(FIXTURE_SR.uuid, ['COMPLETE'], { pollInterval: 5, maxWait: 20 }).catch(e => e);
+
+      expect(error).toMatchObject({
+        code: 'TIMEOUT_ERROR',
+        isRetryable: true,
+        context: { details: { maxWait: 20, state: { primary: 'UNDERWAY', supplement: 'ASSIGNED' } } },
+      });
+      expect(error.message).toContain('last state: UNDERWAY/ASSIGNED');
+    });
+  });
+
   describe('submit', () => {
     it('posts to submit endpoint', async () => {
       const mockResponse = { success: true, sr: { state: 'submitted' } };
@@ -192,10 +768,26 @@ describe('ServiceRequests', () => {
 
       const result = await sr.submit(FIXTURE_SR.uuid);
 
-      expect(mockClient._post).toHaveBeenCalledWith(`/api/v2/sr/${FIXTURE_SR.uuid}/submit`);
+      expect(mockClient._post).toHaveBeenCalledWith(`/api/v2/sr/${FIXTURE_SR.uuid}/submit`, undefined, {
+        idempotencyKey: undefined,
+        autoIdempotencyKey: true,
+        signal: undefined,
+      });
       expect(result).toEqual(mockResponse);
     });
 
+    it('passes an explicit idempotency key', async () => {
+      vi.mocked(mockClient._post).mockResolvedValue({ success: true });
+
+      await sr.submit(FIXTURE_SR.uuid, { idempotencyKey: 'submit-key' });
+
+      expect(mockClient._post).toHaveBeenCalledWith(
+        `/api/v2/sr/${FIXTURE_SR.uuid}/submit`,
+        undefined,
+        expect.objectContaining({ idempotencyKey: 'submit-key' })
+      );
+    });
+
     it('handles submit error', async () => {
       vi.mocked(mockClient._post).mockRejectedValue(new Error('Requirements not met'));
 
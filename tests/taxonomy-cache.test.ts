@@ -0,0 +1,280 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import { PartnerClient } from '../src/client';
+import { ConfigurationError, TransportError } from '../src/errors';
+import {
+  TaxonomyCache,
+  createFileStorage,
+  createMemoryStorage,
+  type TaxonomySnapshot,
+} from '../src/taxonomy-cache';
+import type { TransportRequest } from '../src/transports';
+import { TEST_API_KEY, createMockTransport } from './utils';
+import { FIXTURE_CATALOG_TREE } from './fixtures';
+
+const TREE_KEY = 'https://api.legitmark.com/api/v2/categories/tree?active_only=true';
+const HOUR_MS = 60 * 60 * 1000;
+
+function treeResponse(headers: Record<string, string> = {}) {
+  return { status: 200, headers, data: FIXTURE_CATALOG_TREE };
+}
+
+describe('TaxonomyCache', () => {
+  it('rejects a negative ttl', () => {
+    expect(() => new TaxonomyCache({ ttl: -1 })).toThrow(ConfigurationError);
+  });
+});
+
+describe('PartnerClient taxonomy cache', () => {
+  let transport: ReturnType<typeof createMockTransport>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    transport = createMockTransport();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('does not cache unless enabled', async () => {
+    const client = new PartnerClient({ apiKey: TEST_API_KEY, transport });
+    transport.request.mockResolvedValue(treeResponse());
+
+    await client.taxonomy.getTree();
+    await client.taxonomy.getTree();
+
+    expect(transport.request).toHaveBeenCalledTimes(2);
+  });
+
+  it('serves repeated calls from memory within the TTL', async () => {
+    const client = new PartnerClient({ apiKey: TEST_API_KEY, transport, taxonomyCache: true });
+    transport.request.mockResolvedValue(treeResponse());
+
+    const first = await client.taxonomy.getTree();
+    const second = await client.taxonomy.getTree();
+
+    expect(second).toEqual(first);
+    expect(transport.request).toHaveBeenCalledTimes(1);
+  });
+
+  it('caches each endpoint and query separately', async () => {
+    const client = new PartnerClient({ apiKey: TEST_API_KEY, transport, taxonomyCache: true });
+    transport.request.mockResolvedValue({ status: 200, headers: {}, data: { success: true, data: [] } });
+
+    await client.taxonomy.getBrandsForType('type-a');
+    await client.taxonomy.getBrandsForType('type-b');
+    await client.taxonomy.getBrandsForType('type-a');
+
+    expect(transport.request).toHaveBeenCalledTimes(2);
+  });
+
+  it('shares one request between concurrent misses', async () => {
+    const client = new PartnerClient({ apiKey: TEST_API_KEY, transport, taxonomyCache: true });
+    transport.request.mockResolvedValue(treeResponse());
+
+    await Promise.all([client.taxonomy.getTree(), client.taxonomy.getTree()]);
+
+    expect(transport.request).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the shared request running when one caller aborts', async () => {
+    const client = new PartnerClient({ apiKey: TEST_API_KEY, transport, taxonomyCache: true });
+    let respond!: (response: ReturnType<typeof treeResponse>) => void;
+    transport.request.mockReturnValueOnce(new Promise(resolve => { respond = resolve; }));
+    const controller = new AbortController();
+
+    const first = client.taxonomy.getTree({ signal: controller.signal });
+    const second = client.taxonomy.getTree();
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort();
+    respond(treeResponse());
+
+    await expect(first).rejects.toMatchObject({ code: 'ABORT_ERROR' });
+    expect(await second).toEqual(FIXTURE_CATALOG_TREE);
+    expect(transport.request).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the shared request running when a withOptions client sharing the cache aborts', async () => {
+    const client = new PartnerClient({ apiKey: TEST_API_KEY, transport, taxonomyCache: true });
+    const controller = new AbortController();
+    const child = client.withOptions({ signal: controller.signal });
+    let respond!: (response: ReturnType<typeof treeResponse>) => void;
+    transport.request.mockImplementationOnce((request: TransportRequest) => new Promise((resolve, reject) => {
+      respond = resolve;
+      request.signal?.addEventListener('abort', () => reject(new TransportError('aborted', 'Request aborted')));
+    }));
+
+    const fromChild = child.taxonomy.getTree();
+    const fromParent = client.taxonomy.getTree();
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort();
+    respond(treeResponse());
+
+    await expect(fromChild).rejects.toMatchObject({ code: 'ABORT_ERROR' });
+    expect(await fromParent).toEqual(FIXTURE_CATALOG_TREE);
+    expect(transport.request).toHaveBeenCalledTimes(1);
+  });
+
+  it('keys entries by base URL', async () => {
+    const cache = new TaxonomyCache();
+    transport.request.mockResolvedValue(treeResponse());
+
+    await new PartnerClient({ apiKey: TEST_API_KEY, transport, taxonomyCache: cache }).taxonomy.getTree();
+    await new PartnerClient({ apiKey: TEST_API_KEY, transport, environment: 'staging', taxonomyCache: cache }).taxonomy.getTree();
+
+    expect(transport.request).toHaveBeenCalledTimes(2);
+  });
+
+  it('revalidates expired entries with ETag and Last-Modified', async () => {
+    const client = new PartnerClient({ apiKey: TEST_API_KEY, transport, taxonomyCache: { ttl: 1_000 } });
+    transport.request
+      .mockResolvedValueOnce(treeResponse({ etag: '"v1"', 'last-modified': 'Mon, 05 Oct 2026 10:00:00 GMT' }))
+      .mockRejectedValueOnce(new TransportError('http', 'Not Modified', { status: 304 }));
+
+    await client.taxonomy.getTree();
+    vi.advanceTimersByTime(1_000);
+    const result = await client.taxonomy.getTree();
+
+    expect(result).toEqual(FIXTURE_CATALOG_TREE);
+    expect(transport.request.mock.calls[1][0].headers).toMatchObject({
+      'If-None-Match': '"v1"',
+      'If-Modified-Since': 'Mon, 05 Oct 2026 10:00:00 GMT',
+    });
+
+    // A 304 restarts the TTL
+    await client.taxonomy.getTree();
+    expect(transport.request).toHaveBeenCalledTimes(2);
+  });
+
+  it('replaces expired entries that changed', async () => {
+    const client = new PartnerClient({ apiKey: TEST_API_KEY, transport, taxonomyCache: { ttl: 1_000 } });
+    const updated = { ...FIXTURE_CATALOG_TREE, data: [] };
+    transport.request
+      .mockResolvedValueOnce(treeResponse({ etag: '"v1"' }))
+      .mockResolvedValueOnce({ status: 200, headers: { etag: '"v2"' }, data: updated });
+
+    await client.taxonomy.getTree();
+    vi.advanceTimersByTime(1_000);
+
+    expect(await client.taxonomy.getTree()).toEqual(updated);
+  });
+
+  it('serves stale entries when the API is unreachable', async () => {
+    const client = new PartnerClient({ apiKey: TEST_API_KEY, transport, taxonomyCache: { ttl: 1_000 } });
+    transport.request
+      .mockResolvedValueOnce(treeResponse())
+      .mockRejectedValueOnce(new TransportError('network', 'ECONNREFUSED'));
+
+    await client.taxonomy.getTree();
+    vi.advanceTimersByTime(1_000);
+
+    expect(await client.taxonomy.getTree()).toEqual(FIXTURE_CATALOG_TREE);
+  });
+
+  it('surfaces errors when staleIfError is disabled', async () => {
+    const client = new PartnerClient({
+      apiKey: TEST_API_KEY,
+      transport,
+      taxonomyCache: { ttl: 1_000, staleIfError: false },
+    });
+    transport.request
+      .mockResolvedValueOnce(treeResponse())
+      .mockRejectedValueOnce(new TransportError('network', 'ECONNREFUSED'));
+
+    await client.taxonomy.getTree();
+    vi.advanceTimersByTime(1_000);
+
+    await expect(client.taxonomy.getTree()).rejects.toMatchObject({ code: 'NETWORK_ERROR' });
+  });
+
+  it('boots from a snapshot without network', async () => {
+    const snapshot: TaxonomySnapshot = {
+      version: 1,
+      entries: { [TREE_KEY]: { data: FIXTURE_CATALOG_TREE, storedAt: Date.now() - 2 * HOUR_MS } },
+    };
+    const client = new PartnerClient({
+      apiKey: TEST_API_KEY,
+      transport,
+      taxonomyCache: { storage: createMemoryStorage(snapshot) },
+    });
+    transport.request.mockRejectedValue(new TransportError('network', 'ENOTFOUND'));
+
+    expect(await client.taxonomy.getTree()).toEqual(FIXTURE_CATALOG_TREE);
+  });
+
+  it('is shared with clients created by withOptions and clearable', async () => {
+    const cache = new TaxonomyCache();
+    const client = new PartnerClient({ apiKey: TEST_API_KEY, transport, taxonomyCache: cache });
+    transport.request.mockResolvedValue(treeResponse());
+
+    await client.taxonomy.getTree();
+    await client.withOptions({ timeout: 5 }).taxonomy.getTree();
+    expect(transport.request).toHaveBeenCalledTimes(1);
+
+    await cache.clear();
+    await client.taxonomy.getTree();
+    expect(transport.request).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('createFileStorage', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'legitmark-cache-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('persists entries to a snapshot file that a new cache can read', async () => {
+    const path = join(dir, 'taxonomy.json');
+    const transport = createMockTransport();
+    transport.request.mockResolvedValue(treeResponse({ etag: '"v1"' }));
+    const client = new PartnerClient({ apiKey: TEST_API_KEY, transport, taxonomyCache: { storage: createFileStorage(path) } });
+
+    await client.taxonomy.getTree();
+
+    const snapshot = JSON.parse(readFileSync(path, 'utf8')) as TaxonomySnapshot;
+    expect(snapshot.version).toBe(1);
+    expect(snapshot.entries[TREE_KEY]).toMatchObject({ data: FIXTURE_CATALOG_TREE, etag: '"v1"' });
+
+    const coldTransport = createMockTransport();
+    const cold = new PartnerClient({
+      apiKey: TEST_API_KEY,
+      transport: coldTransport,
+      taxonomyCache: { storage: createFileStorage(path) },
+    });
+    expect(await cold.taxonomy.getTree()).toEqual(FIXTURE_CATALOG_TREE);
+    expect(coldTransport.request).not.toHaveBeenCalled();
+  });
+
+  it('starts empty when the file does not exist', async () => {
+    const storage = createFileStorage(join(dir, 'missing.json'));
+
+    expect(await storage.get(TREE_KEY)).toBeUndefined();
+  });
+
+  it('rejects a file that is not a snapshot', async () => {
+    const path = join(dir, 'other.json');
+    writeFileSync(path, JSON.stringify({ hello: 'world' }));
+
+    await expect(createFileStorage(path).get(TREE_KEY)).rejects.toThrow(ConfigurationError);
+  });
+
+  it('reads the file again after a failed read', async () => {
+    const path = join(dir, 'taxonomy.json');
+    writeFileSync(path, '{ corrupt');
+    const storage = createFileStorage(path);
+
+    await expect(storage.get(TREE_KEY)).rejects.toThrow();
+    writeFileSync(path, JSON.stringify({ version: 1, entries: { [TREE_KEY]: { data: 'tree', storedAt: 1 } } }));
+
+    expect(await storage.get(TREE_KEY)).toEqual({ data: 'tree', storedAt: 1 });
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+
+import { diffTaxonomy, type CatalogSnapshot } from '../src/taxonomy-diff';
+import type { Category } from '../src/types';
+import { FIXTURE_CATEGORY, FIXTURE_BRAND, FIXTURE_BRAND_AIR_JORDAN, FIXTURE_CATALOG_TREE } from './fixtures';
+
+const [SNEAKERS, BOOTS] = FIXTURE_CATEGORY.types!;
+
+const BAGS: Category = {
+  uuid: 'bags-uuid',
+  name: 'Bags',
+  active: true,
+  ordinal: 2,
+  types: [{ uuid: 'totes-uuid', name: 'Totes', active: true, ordinal: 1 }],
+};
+
+function snapshot(categories: Category[], brands = [FIXTURE_BRAND, FIXTURE_BRAND_AIR_JORDAN]): CatalogSnapshot {
+  return { tree: { ...FIXTURE_CATALOG_TREE, data: categories }, brands };
+}
+
+describe('diffTaxonomy', () => {
+  it('reports no changes for identical snapshots', () => {
+    const diff = diffTaxonomy(snapshot([FIXTURE_CATEGORY]), snapshot([FIXTURE_CATEGORY]));
+
+    expect(diff.hasChanges).toBe(false);
+    expect(diff.patch).toEqual([]);
+  });
+
+  it('reports added and removed categories with their types', () => {
+    const diff = diffTaxonomy(snapshot([FIXTURE_CATEGORY]), snapshot([BAGS]));
+
+    expect(diff.categories.added).toEqual([BAGS]);
+    expect(diff.categories.removed).toEqual([FIXTURE_CATEGORY]);
+    expect(diff.types.added.map(t => t.uuid)).toEqual(['totes-uuid']);
+    expect(diff.types.removed.map(t => t.uuid)).toEqual([SNEAKERS.uuid, BOOTS.uuid]);
+    expect(diff.patch).toEqual([
+      { op: 'add', path: '/categories/bags-uuid', value: { uuid: 'bags-uuid', name: 'Bags', active: true, ordinal: 2 } },
+      {
+        op: 'add',
+        path: '/categories/bags-uuid/types/totes-uuid',
+        value: { uuid: 'totes-uuid', name: 'Totes', active: true, ordinal: 1 },
+      },
+      { op: 'remove', path: `/categories/${FIXTURE_CATEGORY.uuid}/types/${SNEAKERS.uuid}` },
+      { op: 'remove', path: `/categories/${FIXTURE_CATEGORY.uuid}/types/${BOOTS.uuid}` },
+      { op: 'remove', path: `/categories/${FIXTURE_CATEGORY.uuid}` },
+    ]);
+  });
+
+  it('reports renamed, reordered and deactivated types', () => {
+    const changed: Category = {
+      ...FIXTURE_CATEGORY,
+      types: [{ ...SNEAKERS, name: 'Trainers', ordinal: 2 }, { ...BOOTS, ordinal: 1, active: false }],
+    };
+
+    const diff = diffTaxonomy(snapshot([FIXTURE_CATEGORY]), snapshot([changed]));
+
+    expect(diff.types.renamed).toEqual([{ uuid: SNEAKERS.uuid, from: 'Sneakers', to: 'Trainers' }]);
+    expect(diff.types.reordered).toEqual([
+      { uuid: SNEAKERS.uuid, name: 'Trainers', from: 1, to: 2 },
+      { uuid: BOOTS.uuid, name: 'Boots', from: 2, to: 1 },
+    ]);
+    expect(diff.types.deactivated.map(t => t.uuid)).toEqual([BOOTS.uuid]);
+    expect(diff.patch).toContainEqual({
+      op: 'replace',
+      path: `/categories/${FIXTURE_CATEGORY.uuid}/types/${BOOTS.uuid}/active`,
+      value: false,
+    });
+    expect(diff.categories.renamed).toEqual([]);
+  });
+
+  it('reports types moved between categories', () => {
+    const bagsWithBoots = { ...BAGS, types: [...BAGS.types!, BOOTS] };
+
+    const diff = diffTaxonomy(
+      snapshot([FIXTURE_CATEGORY, BAGS]),
+      snapshot([{ ...FIXTURE_CATEGORY, types: [SNEAKERS] }, bagsWithBoots])
+    );
+
+    expect(diff.types.moved).toEqual([{ uuid: BOOTS.uuid, name: 'Boots', from: FIXTURE_CATEGORY.uuid, to: 'bags-uuid' }]);
+    expect(diff.types.added).toEqual([]);
+    expect(diff.patch).toEqual([{
+      op: 'move',
+      from: `/categories/${FIXTURE_CATEGORY.uuid}/types/${BOOTS.uuid}`,
+      path: `/categories/bags-uuid/types/${BOOTS.uuid}`,
+    }]);
+  });
+
+  it('diffs brand lists', () => {
+    const diff = diffTaxonomy(
+      snapshot([FIXTURE_CATEGORY]),
+      snapshot([FIXTURE_CATEGORY], [{ ...FIXTURE_BRAND, name: 'NIKE', active: false }])
+    );
+
+    expect(diff.brands.removed).toEqual([FIXTURE_BRAND_AIR_JORDAN]);
+    expect(diff.brands.renamed).toEqual([{ uuid: FIXTURE_BRAND.uuid, from: 'Nike', to: 'NIKE' }]);
+    expect(diff.brands.deactivated).toHaveLength(1);
+    expect(diff.patch).toEqual([
+      { op: 'remove', path: `/brands/${FIXTURE_BRAND_AIR_JORDAN.uuid}` },
+      { op: 'replace', path: `/brands/${FIXTURE_BRAND.uuid}/name`, value: 'NIKE' },
+      { op: 'replace', path: `/brands/${FIXTURE_BRAND.uuid}/active`, value: false },
+    ]);
+  });
+
+  it('skips brands unless both snapshots include them', () => {
+    const diff = diffTaxonomy(snapshot([FIXTURE_CATEGORY]), { tree: FIXTURE_CATALOG_TREE });
+
+    expect(diff.hasChanges).toBe(false);
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { Taxonomy } from '../src/resources/taxonomy';
+import { ConfigurationError } from '../src/errors';
+import { toCsvLine } from '../src/taxonomy-export';
+import type { ResourceClient } from '../src/resources/client';
+import type { Brand, Category } from '../src/types';
+import { createMockClient } from './utils';
+import { FIXTURE_BRAND, FIXTURE_BRAND_AIR_JORDAN, FIXTURE_CATEGORY } from './fixtures';
+
+const SNEAKERS = FIXTURE_CATEGORY.types![0];
+const BOOTS = FIXTURE_CATEGORY.types![1];
+const HANDBAGS: Category = { uuid: 'handbags', name: 'Handbags, Totes', active: false, ordinal: 2 };
+const INACTIVE_BRAND: Brand = { uuid: 'retired', name: 'Retired "Classic"', active: false };
+
+const mockClient = createMockClient() as unknown as ResourceClient;
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+  return items;
+}
+
+describe('toCsvLine', () => {
+  it('quotes fields containing commas, quotes or newlines', () => {
+    expect(toCsvLine(['a', 'b,c', 'say "hi"', 'two\nlines', true, undefined])).toBe(
+      'a,"b,c","say ""hi""","two\nlines",true,\r\n'
+    );
+  });
+
+  it('escapes values that spreadsheets would evaluate as formulas', () => {
+    expect(toCsvLine(['=HYPERLINK("x")', '+1', '-2', '@SUM(A1)', 'a=b'])).toBe(
+      `"'=HYPERLINK(""x"")",'+1,'-2,'@SUM(A1),a=b\r\n`
+    );
+    expect(toCsvLine(['=1+1'], false)).toBe('=1+1\r\n');
+  });
+});
+
+describe('Taxonomy export', () => {
+  let taxonomy: Taxonomy;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    taxonomy = new Taxonomy(mockClient);
+    vi.mocked(mockClient._getCached).mockImplementation(async (endpoint: string) => {
+      if (endpoint === '/api/v2/categories/tree') {
+        return { success: true, data: [FIXTURE_CATEGORY, HANDBAGS] };
+      }
+      const brands = endpoint.includes(SNEAKERS.uuid) ? [FIXTURE_BRAND, INACTIVE_BRAND] : [];
+      return { success: true, data: brands };
+    });
+  });
+
+  it('yields one row per category, type and brand', async () => {
+    const rows = await collect(taxonomy.exportRows());
+
+    expect(rows).toEqual([
+      expect.objectContaining({ type_uuid: SNEAKERS.uuid, brand_uuid: FIXTURE_BRAND.uuid, brand_active: true }),
+      expect.objectContaining({ type_uuid: SNEAKERS.uuid, brand_uuid: INACTIVE_BRAND.uuid, brand_active: false }),
+      {
+        category_uuid: FIXTURE_CATEGORY.uuid,
+        category_name: FIXTURE_CATEGORY.name,
+        category_active: true,
+        type_uuid: BOOTS.uuid,
+        type_name: BOOTS.name,
+        type_active: true,
+      },
+      { category_uuid: HANDBAGS.uuid, category_name: HANDBAGS.name, category_active: false },
+    ]);
+    expect(mockClient._getCached).toHaveBeenCalledWith('/api/v2/categories/tree', {}, { signal: undefined });
+  });
+
+  it('drops inactive entries and skips brand lookups on request', async () => {
+    vi.mocked(mockClient._getCached).mockResolvedValueOnce({ success: true, data: [FIXTURE_CATEGORY] });
+
+    const rows = await collect(taxonomy.exportRows({ activeOnly: true, brands: false }));
+
+    expect(rows.map(row => row.type_name)).toEqual(['Sneakers', 'Boots']);
+    expect(mockClient._getCached).toHaveBeenCalledTimes(1);
+    expect(mockClient._getCached).toHaveBeenCalledWith(
+      '/api/v2/categories/tree',
+      { active_only: 'true' },
+      { signal: undefined }
+    );
+  });
+
+  it('streams CSV with the selected columns', async () => {
+    const csv = (await collect(taxonomy.export({ columns: ['category_name', 'type_name', 'brand_name'] }))).join('');
+
+    expect(csv).toBe([
+      'category_name,type_name,brand_name',
+      'Footwear,Sneakers,Nike',
+      'Footwear,Sneakers,"Retired ""Classic"""',
+      'Footwear,Boots,',
+      '"Handbags, Totes",,',
+      '',
+    ].join('\r\n'));
+  });
+
+  it('streams nested JSON lines per category', async () => {
+    const lines = await collect(taxonomy.export({ format: 'json', columns: ['category_name', 'type_name', 'brand_uuid'] }));
+
+    expect(lines.map(line => JSON.parse(line))).toEqual([
+      {
+        name: 'Footwear',
+        types: [
+          { name: 'Sneakers', brands: [{ uuid: FIXTURE_BRAND.uuid }, { uuid: INACTIVE_BRAND.uuid }] },
+          { name: 'Boots', brands: [] },
+        ],
+      },
+      { name: HANDBAGS.name, types: [] },
+    ]);
+  });
+
+  it('fetches brands ahead up to the concurrency limit', async () => {
+    const brandRequests: string[] = [];
+    vi.mocked(mockClient._getCached).mockImplementation(async (endpoint: string) => {
+      if (endpoint === '/api/v2/categories/tree') {
+        return { success: true, data: [FIXTURE_CATEGORY] };
+      }
+      brandRequests.push(endpoint);
+      return { success: true, data: [FIXTURE_BRAND_AIR_JORDAN] };
+    });
+
+    const iterator = taxonomy.exportRows({ concurrency: 2 });
+    await iterator.next();
+
+    expect(brandRequests).toEqual([`/api/v2/types/${SNEAKERS.uuid}/brands`, `/api/v2/types/${BOOTS.uuid}/brands`]);
+    await iterator.return(undefined);
+  });
+
+  it('rejects unknown formats and columns', async () => {
+    await expect(collect(taxonomy.export({ format: 'xml' as never }))).rejects.toThrow(ConfigurationError);
+    await expect(collect(taxonomy.export({ columns: ['sku' as never] }))).rejects.toThrow('Unknown export columns: sku');
+    expect(mockClient._getCached).not.toHaveBeenCalled();
+  });
+});
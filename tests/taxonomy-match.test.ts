@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+
+import { matchName, normalizeName, scoreName } from '../src/taxonomy-match';
+
+const entries = [
+  { uuid: 'a', name: 'T-Shirts' },
+  { uuid: 'b', name: 'Shirts' },
+  { uuid: 'c', name: 'Sweatshirts & Hoodies' },
+];
+
+describe('normalizeName', () => {
+  it('strips case, accents and punctuation', () => {
+    expect(normalizeName('  Hermès  ')).toBe('hermes');
+    expect(normalizeName('Sweatshirts & Hoodies')).toBe('sweatshirts and hoodies');
+    expect(normalizeName('Off-White™')).toBe('off white');
+  });
+
+  it('keeps letters of non-Latin scripts', () => {
+    expect(normalizeName('コム・デ・ギャルソン')).toBe(normalizeName('コム デ ギャルソン'));
+    expect(normalizeName('Ермак')).toBe('ермак');
+  });
+});
+
+describe('scoreName', () => {
+  it('ranks exact, compact, contained and misspelled names', () => {
+    expect(scoreName('nike', 'nike')).toBe(1);
+    expect(scoreName('tshirts', 't shirts')).toBe(0.97);
+    expect(scoreName('jordan', 'air jordan')).toBe(0.8);
+    expect(scoreName('adidsa', 'adidas')).toBeCloseTo(0.667, 3);
+    expect(scoreName('gucci', 'prada')).toBeLessThan(0.3);
+  });
+
+  it('scores 0 when either name is empty', () => {
+    expect(scoreName('', '')).toBe(0);
+    expect(scoreName('nike', '')).toBe(0);
+  });
+});
+
+describe('matchName', () => {
+  it('prefers an exact match over close ones', () => {
+    const result = matchName('shirts', entries);
+
+    expect(result).toMatchObject({ status: 'matched', match: { uuid: 'b', confidence: 1 } });
+  });
+
+  it('does not match non-Latin names to an unrelated query', () => {
+    const result = matchName('???', [{ uuid: 'a', name: 'ルイ・ヴィトン' }, { uuid: 'b', name: 'シャネル' }]);
+
+    expect(result.status).toBe('not_found');
+    expect(matchName('シャネル', [{ uuid: 'a', name: 'ルイ・ヴィトン' }, { uuid: 'b', name: 'シャネル' }]))
+      .toMatchObject({ status: 'matched', match: { uuid: 'b', confidence: 1 } });
+  });
+
+  it('reports ties within the ambiguity margin', () => {
+    const result = matchName('shirt', [{ uuid: 'a', name: 'Shirts' }, { uuid: 'b', name: 'Shirt' }, { uuid: 'c', name: 'Shirt' }]);
+
+    expect(result).toMatchObject({ status: 'ambiguous', candidates: [{ uuid: 'b' }, { uuid: 'c' }] });
+  });
+
+  it('honors minConfidence', () => {
+    expect(matchName('hoodies', entries)).toMatchObject({ status: 'matched', match: { uuid: 'c', confidence: 0.8 } });
+    expect(matchName('hoodies', entries, { minConfidence: 0.9 }).status).toBe('not_found');
+  });
+});
@@ -1,9 +1,16 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 
 import { Taxonomy } from '../src/resources/taxonomy';
+import { LegitmarkError, TaxonomyMatchError } from '../src/errors';
 import type { ResourceClient } from '../src/resources/client';
 import { createMockClient } from './utils';
-import { FIXTURE_CATEGORY, FIXTURE_BRAND, FIXTURE_BRAND_AIR_JORDAN } from './fixtures';
+import {
+  FIXTURE_CATEGORY,
+  FIXTURE_BRAND,
+  FIXTURE_BRAND_AIR_JORDAN,
+  FIXTURE_CATALOG_TREE,
+  FIXTURE_MODEL,
+} from './fixtures';
 
 const mockClient = createMockClient() as unknown as ResourceClient;
 
@@ -17,7 +24,7 @@ describe('Taxonomy', () => {
 
   describe('getTree', () => {
     it('returns categories with nested types', async () => {
-      vi.mocked(mockClient._get).mockResolvedValueOnce({
+      vi.mocked(mockClient._getCached).mockResolvedValueOnce({
         success: true,
         data: [FIXTURE_CATEGORY],
         metadata: { total_categories: 1, total_types: FIXTURE_CATEGORY.types!.length },
@@ -28,22 +35,23 @@ describe('Taxonomy', () => {
       expect(result.data).toHaveLength(1);
       expect(result.data[0].name).toBe(FIXTURE_CATEGORY.name);
       expect(result.data[0].types).toHaveLength(FIXTURE_CATEGORY.types!.length);
-      expect(mockClient._get).toHaveBeenCalledWith(
+      expect(mockClient._getCached).toHaveBeenCalledWith(
         '/api/v2/categories/tree',
-        expect.objectContaining({ active_only: 'true' })
+        expect.objectContaining({ active_only: 'true' }),
+        { signal: undefined }
       );
     });
 
     it('respects activeOnly option', async () => {
-      vi.mocked(mockClient._get).mockResolvedValueOnce({ success: true, data: [] });
+      vi.mocked(mockClient._getCached).mockResolvedValueOnce({ success: true, data: [] });
 
       await taxonomy.getTree({ activeOnly: false });
 
-      expect(mockClient._get).toHaveBeenCalledWith('/api/v2/categories/tree', {});
+      expect(mockClient._getCached).toHaveBeenCalledWith('/api/v2/categories/tree', {}, { signal: undefined });
     });
 
     it('throws on API error', async () => {
-      vi.mocked(mockClient._get).mockRejectedValueOnce(new Error('Network error'));
+      vi.mocked(mockClient._getCached).mockRejectedValueOnce(new Error('Network error'));
 
       await expect(taxonomy.getTree()).rejects.toThrow('Network error');
     });
@@ -51,7 +59,7 @@ describe('Taxonomy', () => {
 
   describe('getCategories', () => {
     it('returns paginated categories', async () => {
-      vi.mocked(mockClient._get).mockResolvedValueOnce({
+      vi.mocked(mockClient._getCached).mockResolvedValueOnce({
         success: true,
         data: [
           { uuid: 'cat-1', name: 'Footwear', active: true, ordinal: 1 },
@@ -68,18 +76,19 @@ describe('Taxonomy', () => {
     });
 
     it('passes pagination params', async () => {
-      vi.mocked(mockClient._get).mockResolvedValueOnce({ success: true, data: [] });
+      vi.mocked(mockClient._getCached).mockResolvedValueOnce({ success: true, data: [] });
 
       await taxonomy.getCategories({ page: 2, pageSize: 5 });
 
-      expect(mockClient._get).toHaveBeenCalledWith(
+      expect(mockClient._getCached).toHaveBeenCalledWith(
         '/api/v2/categories',
-        expect.objectContaining({ page_number: '2', page_size: '5' })
+        expect.objectContaining({ page_number: '2', page_size: '5' }),
+        { signal: undefined }
       );
     });
 
     it('throws on API error', async () => {
-      vi.mocked(mockClient._get).mockRejectedValueOnce(new Error('Server error'));
+      vi.mocked(mockClient._getCached).mockRejectedValueOnce(new Error('Server error'));
 
       await expect(taxonomy.getCategories()).rejects.toThrow('Server error');
     });
@@ -87,7 +96,7 @@ describe('Taxonomy', () => {
 
   describe('getBrands', () => {
     it('returns brands', async () => {
-      vi.mocked(mockClient._get).mockResolvedValueOnce({
+      vi.mocked(mockClient._getCached).mockResolvedValueOnce({
         success: true,
         data: [FIXTURE_BRAND, FIXTURE_BRAND_AIR_JORDAN],
         metadata: { total_count: 2 },
@@ -99,21 +108,210 @@ describe('Taxonomy', () => {
       expect(result.data[0].name).toBe(FIXTURE_BRAND.name);
     });
 
-    it('passes search filter', async () => {
+    it('passes search filter, bypassing the cache', async () => {
       vi.mocked(mockClient._get).mockResolvedValueOnce({ success: true, data: [] });
 
       await taxonomy.getBrands({ search: FIXTURE_BRAND.name });
 
+      expect(mockClient._getCached).not.toHaveBeenCalled();
+      expect(mockClient._get).toHaveBeenCalledWith(
+        '/api/v2/brands',
+        expect.objectContaining({ search: FIXTURE_BRAND.name }),
+        { signal: undefined }
+      );
+    });
+  });
+
+  describe('getCategory / getType', () => {
+    const SNEAKERS = FIXTURE_CATEGORY.types![0];
+
+    it('finds a category in the full tree', async () => {
+      vi.mocked(mockClient._getCached).mockResolvedValueOnce(FIXTURE_CATALOG_TREE);
+
+      const category = await taxonomy.getCategory(FIXTURE_CATEGORY.uuid);
+
+      expect(category).toEqual(FIXTURE_CATEGORY);
+      expect(mockClient._getCached).toHaveBeenCalledWith(
+        '/api/v2/categories/tree',
+        {},
+        { signal: undefined }
+      );
+    });
+
+    it('returns a type with its parent category', async () => {
+      vi.mocked(mockClient._getCached).mockResolvedValueOnce(FIXTURE_CATALOG_TREE);
+
+      const type = await taxonomy.getType(SNEAKERS.uuid);
+
+      expect(type).toEqual({
+        ...SNEAKERS,
+        category: { uuid: FIXTURE_CATEGORY.uuid, name: FIXTURE_CATEGORY.name, media: FIXTURE_CATEGORY.media },
+      });
+    });
+
+    it('throws NOT_FOUND_ERROR suggesting the right getter for a UUID of the other level', async () => {
+      vi.mocked(mockClient._getCached).mockResolvedValueOnce(FIXTURE_CATALOG_TREE);
+
+      const error = await taxonomy.getCategory(SNEAKERS.uuid).catch(e => e);
+
+      expect(error).toMatchObject({ code: 'NOT_FOUND_ERROR', message: `Category ${SNEAKERS.uuid} not found` });
+      expect(error.suggestions[0]).toContain('taxonomy.getType()');
+    });
+
+    it('throws NOT_FOUND_ERROR for an unknown UUID', async () => {
+      vi.mocked(mockClient._getCached).mockResolvedValueOnce(FIXTURE_CATALOG_TREE);
+
+      const error = await taxonomy.getType('unknown-uuid').catch(e => e);
+
+      expect(error).toMatchObject({ code: 'NOT_FOUND_ERROR', context: { details: { level: 'type', uuid: 'unknown-uuid' } } });
+      expect(error.suggestions[0]).toContain('taxonomy.getTree');
+    });
+  });
+
+  describe('getBrand', () => {
+    it('returns the brand with the types and categories offering it', async () => {
+      const [sneakers, boots] = FIXTURE_CATEGORY.types!;
+      vi.mocked(mockClient._getCached)
+        .mockResolvedValueOnce({ success: true, data: FIXTURE_BRAND })
+        .mockResolvedValueOnce({ success: true, data: [FIXTURE_CATEGORY] })
+        .mockResolvedValueOnce({ success: true, data: [FIXTURE_BRAND_AIR_JORDAN, FIXTURE_BRAND] })
+        .mockResolvedValueOnce({ success: true, data: [FIXTURE_BRAND_AIR_JORDAN] });
+
+      const brand = await taxonomy.getBrand(FIXTURE_BRAND.uuid);
+
+      const category = { uuid: FIXTURE_CATEGORY.uuid, name: FIXTURE_CATEGORY.name, media: FIXTURE_CATEGORY.media };
+      expect(brand).toEqual({ ...FIXTURE_BRAND, types: [{ ...sneakers, category }], categories: [category] });
+      expect(mockClient._getCached).toHaveBeenCalledWith(`/api/v2/brands/${FIXTURE_BRAND.uuid}`, undefined, {
+        signal: undefined,
+      });
+      expect(mockClient._getCached).toHaveBeenCalledWith(`/api/v2/types/${boots.uuid}/brands`, undefined, {
+        signal: expect.any(AbortSignal),
+      });
+    });
+
+    it('rethrows NOT_FOUND_ERROR with a suggestion', async () => {
+      const cause = new LegitmarkError('NOT_FOUND_ERROR', 'Brand not found', { context: { statusCode: 404 } });
+      vi.mocked(mockClient._getCached).mockRejectedValueOnce(cause);
+
+      const error = await taxonomy.getBrand('unknown-uuid').catch(e => e);
+
+      expect(error).toMatchObject({ code: 'NOT_FOUND_ERROR', message: 'Brand unknown-uuid not found', cause });
+      expect(error.context.statusCode).toBe(404);
+      expect(error.suggestions[0]).toContain('taxonomy.getBrands');
+    });
+  });
+
+  describe('iterateCategories', () => {
+    it('yields categories from every page', async () => {
+      vi.mocked(mockClient._getCached)
+        .mockResolvedValueOnce({
+          success: true,
+          data: [FIXTURE_CATEGORY],
+          metadata: { total_count: 2, page_number: 1, total_pages: 2, page_size: 1 },
+        })
+        .mockResolvedValueOnce({
+          success: true,
+          data: [{ ...FIXTURE_CATEGORY, name: 'Bags' }],
+          metadata: { total_count: 2, page_number: 2, total_pages: 2, page_size: 1 },
+        });
+
+      const categories = await taxonomy.iterateCategories({ pageSize: 1, activeOnly: false }).toArray();
+
+      expect(categories.map(c => c.name)).toEqual([FIXTURE_CATEGORY.name, 'Bags']);
+      expect(mockClient._getCached).toHaveBeenLastCalledWith(
+        '/api/v2/categories',
+        { page_number: '2', page_size: '1' },
+        { signal: expect.any(AbortSignal) }
+      );
+    });
+  });
+
+  describe('listAllBrands', () => {
+    it('passes search filter to every page', async () => {
+      vi.mocked(mockClient._get).mockResolvedValueOnce({ success: true, data: [FIXTURE_BRAND] });
+
+      const brands = await taxonomy.listAllBrands({ search: FIXTURE_BRAND.name }).toArray();
+
+      expect(brands).toEqual([FIXTURE_BRAND]);
       expect(mockClient._get).toHaveBeenCalledWith(
         '/api/v2/brands',
-        expect.objectContaining({ search: FIXTURE_BRAND.name })
+        { search: FIXTURE_BRAND.name, page_number: '1', page_size: '100' },
+        { signal: expect.any(AbortSignal) }
       );
     });
   });
 
+  describe('createBrandIndex', () => {
+    it('indexes every brand with aliases', async () => {
+      vi.mocked(mockClient._getCached)
+        .mockResolvedValueOnce({ success: true, data: [FIXTURE_BRAND], metadata: { total_pages: 2 } })
+        .mockResolvedValueOnce({ success: true, data: [FIXTURE_BRAND_AIR_JORDAN], metadata: { total_pages: 2 } });
+
+      const index = await taxonomy.createBrandIndex({ aliases: { [FIXTURE_BRAND_AIR_JORDAN.uuid]: ['Jordan'] } });
+
+      expect(index.size).toBe(2);
+      expect(index.search('jordan')[0]).toMatchObject({ brand: FIXTURE_BRAND_AIR_JORDAN, score: 1 });
+      expect(mockClient._getCached).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('resolve', () => {
+    const SNEAKERS = FIXTURE_CATEGORY.types![0];
+
+    function mockCatalog(brands = [FIXTURE_BRAND, FIXTURE_BRAND_AIR_JORDAN]): void {
+      vi.mocked(mockClient._getCached)
+        .mockResolvedValueOnce(FIXTURE_CATALOG_TREE)
+        .mockResolvedValueOnce({ success: true, data: brands });
+    }
+
+    it('resolves names to UUIDs ignoring case, accents and punctuation', async () => {
+      mockCatalog();
+
+      const resolved = await taxonomy.resolve({ category: 'FOOTWEAR', type: 'sneakers', brand: 'Níke' });
+
+      expect(resolved.item).toEqual({ category: FIXTURE_CATEGORY.uuid, type: SNEAKERS.uuid, brand: FIXTURE_BRAND.uuid });
+      expect(resolved.confidence).toBe(1);
+      expect(resolved.brand.value).toEqual(FIXTURE_BRAND);
+      expect(mockClient._getCached).toHaveBeenLastCalledWith(`/api/v2/types/${SNEAKERS.uuid}/brands`, undefined, {
+        signal: undefined,
+      });
+    });
+
+    it('tolerates typos with a lower confidence', async () => {
+      mockCatalog();
+
+      const resolved = await taxonomy.resolve({ category: 'Footware', type: 'Sneaker', brand: 'Air-Jordan' });
+
+      expect(resolved.item.brand).toBe(FIXTURE_BRAND_AIR_JORDAN.uuid);
+      expect(resolved.category.confidence).toBeLessThan(1);
+      expect(resolved.confidence).toBe(Math.min(resolved.category.confidence, resolved.type.confidence));
+    });
+
+    it('throws AMBIGUOUS_MATCH_ERROR listing the candidates', async () => {
+      mockCatalog([FIXTURE_BRAND_AIR_JORDAN, { ...FIXTURE_BRAND, uuid: 'jordan-brand', name: 'Jordan Brand' }]);
+
+      const error = await taxonomy.resolve({ category: 'Footwear', type: 'Sneakers', brand: 'Jordan' }).catch(e => e);
+
+      expect(error).toBeInstanceOf(TaxonomyMatchError);
+      expect(error).toMatchObject({ code: 'AMBIGUOUS_MATCH_ERROR', level: 'brand', query: 'Jordan' });
+      expect(error.candidates.map((c: { name: string }) => c.name)).toEqual(['Air Jordan', 'Jordan Brand']);
+    });
+
+    it('throws NOT_FOUND_ERROR with the closest candidates', async () => {
+      vi.mocked(mockClient._getCached).mockResolvedValueOnce(FIXTURE_CATALOG_TREE);
+
+      const error = await taxonomy.resolve({ category: 'Footwear', type: 'Handbags', brand: 'Nike' }).catch(e => e);
+
+      expect(error).toBeInstanceOf(TaxonomyMatchError);
+      expect(error).toMatchObject({ code: 'NOT_FOUND_ERROR', level: 'type' });
+      expect(error.candidates).toHaveLength(2);
+      expect(mockClient._getCached).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('getBrandsForType', () => {
     it('returns brands for type', async () => {
-      vi.mocked(mockClient._get).mockResolvedValueOnce({
+      vi.mocked(mockClient._getCached).mockResolvedValueOnce({
         success: true,
         data: [FIXTURE_BRAND, FIXTURE_BRAND_AIR_JORDAN],
       });
@@ -122,7 +320,41 @@ describe('Taxonomy', () => {
       const result = await taxonomy.getBrandsForType(typeUuid);
 
       expect(result.data).toHaveLength(2);
-      expect(mockClient._get).toHaveBeenCalledWith(`/api/v2/types/${typeUuid}/brands`);
+      expect(mockClient._getCached).toHaveBeenCalledWith(`/api/v2/types/${typeUuid}/brands`, undefined, { signal: undefined });
+    });
+  });
+
+  describe('getModels', () => {
+    const typeUuid = FIXTURE_CATEGORY.types![0].uuid;
+
+    it('returns models for a brand within a type', async () => {
+      vi.mocked(mockClient._getCached).mockResolvedValueOnce({
+        success: true,
+        data: [FIXTURE_MODEL],
+        metadata: { total_count: 1, page_number: 1, total_pages: 1, page_size: 100 },
+      });
+
+      const result = await taxonomy.getModels(FIXTURE_BRAND.uuid, typeUuid);
+
+      expect(result.data).toEqual([FIXTURE_MODEL]);
+      expect(mockClient._getCached).toHaveBeenCalledWith(
+        `/api/v2/types/${typeUuid}/brands/${FIXTURE_BRAND.uuid}/models`,
+        {},
+        { signal: undefined }
+      );
+    });
+
+    it('passes search and pagination, bypassing the cache', async () => {
+      vi.mocked(mockClient._get).mockResolvedValueOnce({ success: true, data: [] });
+
+      await taxonomy.getModels(FIXTURE_BRAND.uuid, typeUuid, { search: 'Dunk', page: 2, pageSize: 50 });
+
+      expect(mockClient._getCached).not.toHaveBeenCalled();
+      expect(mockClient._get).toHaveBeenCalledWith(
+        `/api/v2/types/${typeUuid}/brands/${FIXTURE_BRAND.uuid}/models`,
+        { search: 'Dunk', page_number: '2', page_size: '50' },
+        { signal: undefined }
+      );
     });
   });
 });
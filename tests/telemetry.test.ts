@@ -0,0 +1,172 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { PartnerClient } from '../src/client';
+import { TransportError } from '../src/errors';
+import { WorkflowRunner } from '../src/workflow';
+import { TELEMETRY_METRICS, type TelemetryAttributes, type TelemetryOptions } from '../src/telemetry';
+import { TEST_API_KEY, createMockTransport } from './utils';
+import { FIXTURE_SR, FIXTURE_PROGRESS_MET } from './fixtures';
+
+interface RecordedSpan {
+  name: string;
+  kind?: number;
+  parent?: RecordedSpan;
+  attributes: TelemetryAttributes;
+  events: Array<{ name: string; attributes?: TelemetryAttributes }>;
+  status?: { code: number; message?: string };
+  exceptions: Error[];
+  ended: boolean;
+}
+
+/** In-memory tracer and meter shaped like @opentelemetry/api, with async context parenting */
+function createRecorder(): TelemetryOptions & {
+  spans: RecordedSpan[];
+  measurements: Array<{ name: string; value: number; attributes?: TelemetryAttributes }>;
+} {
+  const active = new AsyncLocalStorage<RecordedSpan>();
+  const spans: RecordedSpan[] = [];
+  const measurements: Array<{ name: string; value: number; attributes?: TelemetryAttributes }> = [];
+
+  return {
+    spans,
+    measurements,
+    tracer: {
+      startActiveSpan(name, options, fn) {
+        const recorded: RecordedSpan = {
+          name,
+          kind: options.kind,
+          parent: active.getStore(),
+          attributes: { ...options.attributes },
+          events: [],
+          exceptions: [],
+          ended: false,
+        };
+        spans.push(recorded);
+        const span = {
+          setAttribute: (key: string, value: string | number | boolean) => { recorded.attributes[key] = value; },
+          setStatus: (status: { code: number; message?: string }) => { recorded.status = status; },
+          addEvent: (event: string, attributes?: TelemetryAttributes) => { recorded.events.push({ name: event, attributes }); },
+          recordException: (error: Error) => { recorded.exceptions.push(error); },
+          end: () => { recorded.ended = true; },
+        };
+        return active.run(recorded, () => fn(span)) as ReturnType<typeof fn>;
+      },
+    },
+    meter: {
+      createHistogram: (name) => ({ record: (value, attributes) => measurements.push({ name, value, attributes }) }),
+      createCounter: (name) => ({ add: (value, attributes) => measurements.push({ name, value, attributes }) }),
+    },
+  };
+}
+
+describe('PartnerClient telemetry', () => {
+  let transport: ReturnType<typeof createMockTransport>;
+  let recorder: ReturnType<typeof createRecorder>;
+  let client: PartnerClient;
+
+  beforeEach(() => {
+    transport = createMockTransport();
+    recorder = createRecorder();
+    client = new PartnerClient({ apiKey: TEST_API_KEY, transport, telemetry: recorder });
+  });
+
+  it('emits a client span per request with route, status and request ID', async () => {
+    transport.request.mockResolvedValue({ status: 200, headers: { 'x-request-id': 'srv-1' }, data: { sr: FIXTURE_SR } });
+
+    await client.sr.get(FIXTURE_SR.uuid);
+
+    const [span] = recorder.spans;
+    expect(span.name).toBe('GET /api/v2/sr/{uuid}');
+    expect(span.kind).toBe(2);
+    expect(span.ended).toBe(true);
+    expect(span.attributes).toMatchObject({
+      'http.request.method': 'GET',
+      'http.response.status_code': 200,
+      'server.address': 'api.legitmark.com',
+      'legitmark.target': 'platform',
+      'legitmark.endpoint': `/api/v2/sr/${FIXTURE_SR.uuid}`,
+      'legitmark.request_id': transport.request.mock.calls[0][0].headers['X-Request-Id'],
+      'legitmark.server_request_id': 'srv-1',
+      'legitmark.attempts': 1,
+    });
+  });
+
+  it('records the error code on failed requests', async () => {
+    transport.request.mockRejectedValue(new TransportError('http', 'Not found', { status: 404 }));
+
+    await expect(client.sr.get(FIXTURE_SR.uuid)).rejects.toThrow();
+
+    const [span] = recorder.spans;
+    expect(span.attributes['legitmark.error_code']).toBe('NOT_FOUND_ERROR');
+    expect(span.status).toEqual({ code: 2, message: 'Not found' });
+    expect(span.exceptions).toHaveLength(1);
+  });
+
+  it('keeps signed upload URLs out of span attributes', async () => {
+    transport.request.mockResolvedValue({ status: 200, headers: {}, data: undefined });
+
+    await client.images.upload('https://bucket.example.com/key.jpg?X-Amz-Signature=secret', Buffer.from([1]));
+
+    const [span] = recorder.spans;
+    expect(span.name).toBe('PUT upload');
+    expect(JSON.stringify(span.attributes)).not.toContain('secret');
+    expect(span.attributes['legitmark.endpoint']).toBe('https://bucket.example.com/key.jpg');
+  });
+
+  it('records retries as span events within one span', async () => {
+    const retrying = new PartnerClient({
+      apiKey: TEST_API_KEY,
+      transport,
+      telemetry: recorder,
+      retry: { delay: 1, jitter: false },
+    });
+    transport.request
+      .mockRejectedValueOnce(new TransportError('http', 'Unavailable', { status: 503 }))
+      .mockResolvedValue({ status: 200, headers: {}, data: {} });
+
+    await retrying.taxonomy.getTree();
+
+    expect(recorder.spans).toHaveLength(1);
+    expect(recorder.spans[0].attributes['legitmark.attempts']).toBe(2);
+    expect(recorder.spans[0].events).toEqual([
+      { name: 'retry', attributes: expect.objectContaining({ 'legitmark.attempt': 2, 'legitmark.error_code': 'SERVER_ERROR' }) },
+    ]);
+  });
+
+  it('records duration and error metrics', async () => {
+    transport.request
+      .mockResolvedValueOnce({ status: 200, headers: {}, data: {} })
+      .mockRejectedValueOnce(new TransportError('network', 'ECONNRESET'));
+
+    await client.taxonomy.getTree();
+    await expect(client.taxonomy.getTree()).rejects.toThrow();
+
+    const durations = recorder.measurements.filter(m => m.name === TELEMETRY_METRICS.REQUEST_DURATION);
+    const errors = recorder.measurements.filter(m => m.name === TELEMETRY_METRICS.REQUEST_ERRORS);
+    expect(durations).toHaveLength(2);
+    expect(durations[0].attributes).toMatchObject({ 'legitmark.route': '/api/v2/categories/tree', 'http.response.status_code': 200 });
+    expect(errors).toEqual([
+      { name: TELEMETRY_METRICS.REQUEST_ERRORS, value: 1, attributes: expect.objectContaining({ 'legitmark.error_code': 'NETWORK_ERROR' }) },
+    ]);
+  });
+
+  it('parents request spans under workflow step spans', async () => {
+    transport.request.mockResolvedValue({
+      status: 200,
+      headers: {},
+      data: { sr: { ...FIXTURE_SR, sides: { progress: FIXTURE_PROGRESS_MET } } },
+    });
+    const runner = new WorkflowRunner(client);
+    runner.setSrUuid(FIXTURE_SR.uuid);
+
+    await runner.runFrom(5, undefined, { skipSubmit: true });
+
+    const [workflow, step, request] = recorder.spans;
+    expect(workflow.name).toBe('legitmark.workflow');
+    expect(step).toMatchObject({ name: 'legitmark.workflow Check Progress', parent: workflow });
+    expect(step.attributes).toMatchObject({ 'legitmark.workflow.step': 5, 'legitmark.sr_uuid': FIXTURE_SR.uuid });
+    expect(request.parent).toBe(step);
+    expect(recorder.spans.every(s => s.ended)).toBe(true);
+  });
+});
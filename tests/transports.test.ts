@@ -0,0 +1,332 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import axios, { AxiosError, AxiosHeaders } from 'axios';
+
+import { createAxiosTransport, createFetchTransport } from '../src/transports';
+import { PartnerClient } from '../src/client';
+import { LegitmarkError, TransportError } from '../src/errors';
+import type { LegitmarkErrorCode } from '../src/types';
+import { TEST_API_KEY, createMockTransport } from './utils';
+import { FIXTURE_ERROR_VALIDATION, FIXTURE_SR } from './fixtures';
+
+const TEST_URL = 'https://api.example.com/api/v2/sr';
+
+function jsonResponse(status: number, body: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json', ...headers },
+  });
+}
+
+describe('createFetchTransport', () => {
+  it('sends JSON body and returns parsed response', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse(200, { success: true }, { 'X-Request-Id': 'abc' }));
+    const transport = createFetchTransport({ fetch: fetchMock });
+
+    const response = await transport.request({
+      method: 'POST',
+      url: TEST_URL,
+      headers: { 'Content-Type': 'application/json' },
+      body: { service: 'svc' },
+      timeout: 1000,
+    });
+
+    expect(fetchMock).toHaveBeenCalledWith(TEST_URL, expect.objectContaining({
+      method: 'POST',
+      body: JSON.stringify({ service: 'svc' }),
+    }));
+    expect(response.status).toBe(200);
+    expect(response.data).toEqual({ success: true });
+    expect(response.headers['x-request-id']).toBe('abc');
+  });
+
+  it('sends buffers unchanged', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(null, { status: 200 }));
+    const transport = createFetchTransport({ fetch: fetchMock });
+    const body = Buffer.from([1, 2, 3]);
+
+    const response = await transport.request({ method: 'PUT', url: TEST_URL, headers: {}, body, timeout: 1000 });
+
+    expect(fetchMock.mock.calls[0][1].body).toBe(body);
+    expect(response.data).toBeUndefined();
+  });
+
+  it('throws http TransportError on non-2xx status', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse(400, FIXTURE_ERROR_VALIDATION));
+    const transport = createFetchTransport({ fetch: fetchMock });
+
+    const error = await transport
+      .request({ method: 'GET', url: TEST_URL, headers: {}, timeout: 1000 })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(TransportError);
+    expect(error.kind).toBe('http');
+    expect(error.status).toBe(400);
+    expect(error.data).toEqual(FIXTURE_ERROR_VALIDATION);
+  });
+
+  it('throws network TransportError when fetch rejects', async () => {
+    const transport = createFetchTransport({ fetch: vi.fn().mockRejectedValue(new TypeError('fetch failed')) });
+
+    const error = await transport
+      .request({ method: 'GET', url: TEST_URL, headers: {}, timeout: 1000 })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(TransportError);
+    expect(error.kind).toBe('network');
+  });
+
+  it('throws timeout TransportError when the timeout elapses', async () => {
+    const fetchMock = vi.fn((_url: string, init: RequestInit) => new Promise<Response>((_resolve, reject) => {
+      init.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+    }));
+    const transport = createFetchTransport({ fetch: fetchMock as unknown as typeof fetch });
+
+    const error = await transport
+      .request({ method: 'GET', url: TEST_URL, headers: {}, timeout: 10 })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(TransportError);
+    expect(error.kind).toBe('timeout');
+  });
+
+  it('applies the timeout while reading the body', async () => {
+    const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+      const response = new Response(null, { status: 200 });
+      vi.spyOn(response, 'text').mockImplementation(() => new Promise((_resolve, reject) => {
+        init.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+      }));
+      return response;
+    });
+    const transport = createFetchTransport({ fetch: fetchMock as unknown as typeof fetch });
+
+    const error = await transport
+      .request({ method: 'GET', url: TEST_URL, headers: {}, timeout: 10 })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(TransportError);
+    expect(error.kind).toBe('timeout');
+  });
+
+  it('throws network TransportError when reading the body fails', async () => {
+    const response = new Response('partial', { status: 200 });
+    vi.spyOn(response, 'text').mockRejectedValue(new TypeError('terminated'));
+    const transport = createFetchTransport({ fetch: vi.fn().mockResolvedValue(response) });
+
+    const error = await transport
+      .request({ method: 'GET', url: TEST_URL, headers: {}, timeout: 1000 })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(TransportError);
+    expect(error.kind).toBe('network');
+    expect(error.message).toBe('terminated');
+  });
+
+  it('throws aborted TransportError when the signal aborts', async () => {
+    const fetchMock = vi.fn((_url: string, init: RequestInit) => new Promise<Response>((_resolve, reject) => {
+      init.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+    }));
+    const transport = createFetchTransport({ fetch: fetchMock as unknown as typeof fetch });
+    const controller = new AbortController();
+
+    const pending = transport
+      .request({ method: 'GET', url: TEST_URL, headers: {}, timeout: 1000, signal: controller.signal })
+      .catch((e) => e);
+    controller.abort();
+    const error = await pending;
+
+    expect(error).toBeInstanceOf(TransportError);
+    expect(error.kind).toBe('aborted');
+  });
+});
+
+describe('createAxiosTransport', () => {
+  it('returns status, lower-cased headers and data', async () => {
+    const instance = axios.create();
+    vi.spyOn(instance, 'request').mockResolvedValue({
+      status: 201,
+      headers: { 'X-Request-Id': 'abc' },
+      data: { success: true },
+    });
+    const transport = createAxiosTransport(instance);
+
+    const response = await transport.request({ method: 'POST', url: TEST_URL, headers: {}, body: {}, timeout: 1000 });
+
+    expect(response).toEqual({ status: 201, headers: { 'x-request-id': 'abc' }, data: { success: true } });
+  });
+
+  it('maps axios response errors to http TransportError', async () => {
+    const instance = axios.create();
+    const axiosError = new AxiosError('Request failed', 'ERR_BAD_REQUEST', undefined, undefined, {
+      status: 404,
+      statusText: 'Not Found',
+      headers: {},
+      config: { headers: new AxiosHeaders() },
+      data: { error: { message: 'Not found' } },
+    });
+    vi.spyOn(instance, 'request').mockRejectedValue(axiosError);
+    const transport = createAxiosTransport(instance);
+
+    const error = await transport
+      .request({ method: 'GET', url: TEST_URL, headers: {}, timeout: 1000 })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(TransportError);
+    expect(error.kind).toBe('http');
+    expect(error.status).toBe(404);
+    expect(error.cause).toBe(axiosError);
+  });
+
+  it('maps ECONNABORTED to timeout TransportError', async () => {
+    const instance = axios.create();
+    vi.spyOn(instance, 'request').mockRejectedValue(new AxiosError('timeout', 'ECONNABORTED'));
+    const transport = createAxiosTransport(instance);
+
+    const error = await transport
+      .request({ method: 'GET', url: TEST_URL, headers: {}, timeout: 1000 })
+      .catch((e) => e);
+
+    expect(error.kind).toBe('timeout');
+  });
+});
+
+describe('without axios installed', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    vi.doMock('axios', () => {
+      throw new Error("Cannot find module 'axios'");
+    });
+  });
+
+  afterEach(() => {
+    vi.doUnmock('axios');
+    vi.unstubAllGlobals();
+  });
+
+  it('fails axios transport requests with a ConfigurationError', async () => {
+    const { createAxiosTransport: createTransport } = await import('../src/transports');
+
+    await expect(createTransport().request({ method: 'GET', url: TEST_URL, headers: {}, timeout: 1000 }))
+      .rejects.toMatchObject({ code: 'CONFIGURATION_ERROR', message: expect.stringContaining('axios') });
+  });
+
+  it('sends requests through fetch by default', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse(200, { sr: FIXTURE_SR }));
+    vi.stubGlobal('fetch', fetchMock);
+    const { PartnerClient: Client } = await import('../src/client');
+
+    await new Client({ apiKey: TEST_API_KEY }).sr.get(FIXTURE_SR.uuid);
+
+    expect(fetchMock).toHaveBeenCalledWith(expect.stringContaining(`/api/v2/sr/${FIXTURE_SR.uuid}`), expect.anything());
+  });
+});
+
+describe('PartnerClient with custom transport', () => {
+  let transport: ReturnType<typeof createMockTransport>;
+  let client: PartnerClient;
+
+  beforeEach(() => {
+    transport = createMockTransport();
+    client = new PartnerClient({ apiKey: TEST_API_KEY, transport });
+  });
+
+  it('sends authenticated requests through the transport', async () => {
+    transport.request.mockResolvedValue({ status: 200, headers: {}, data: { sr: FIXTURE_SR } });
+
+    const result = await client.sr.get(FIXTURE_SR.uuid, { item: true });
+
+    expect(result.sr.uuid).toBe(FIXTURE_SR.uuid);
+    const request = transport.request.mock.calls[0][0];
+    expect(request.method).toBe('GET');
+    expect(request.url).toBe(`https://api.legitmark.com/api/v2/sr/${FIXTURE_SR.uuid}?item=true`);
+    expect(request.headers.Authorization).toBe(`Bearer ${TEST_API_KEY}`);
+    expect(request.headers['X-Request-Id']).toMatch(/^req_/);
+  });
+
+  it('uploads through the transport with S3 headers', async () => {
+    transport.request.mockResolvedValue({ status: 200, headers: {}, data: undefined });
+    const body = Buffer.from([1]);
+
+    await client.images.upload('https://bucket.example.com/key?sig=1', body);
+
+    expect(transport.request).toHaveBeenCalledWith(expect.objectContaining({
+      method: 'PUT',
+      url: 'https://bucket.example.com/key?sig=1',
+      body,
+      headers: expect.objectContaining({ 'Content-Type': 'image/jpeg', 'x-amz-acl': 'public-read' }),
+    }));
+  });
+
+  it('shares the transport with clients created by withOptions', async () => {
+    transport.request.mockResolvedValue({ status: 200, headers: {}, data: {} });
+
+    await client.withOptions({ timeout: 5 }).taxonomy.getBrandsForType('type-uuid');
+
+    expect(transport.request).toHaveBeenCalledWith(expect.objectContaining({ timeout: 5 }));
+  });
+
+  const STATUS_TO_CODE: Array<[number, LegitmarkErrorCode, boolean]> = [
+    [400, 'VALIDATION_ERROR', false],
+    [401, 'AUTHENTICATION_ERROR', false],
+    [404, 'NOT_FOUND_ERROR', false],
+    [429, 'RATE_LIMIT_ERROR', true],
+    [503, 'SERVER_ERROR', true],
+    [504, 'TIMEOUT_ERROR', true],
+  ];
+
+  it.each(STATUS_TO_CODE)('maps HTTP %i to %s', async (status, code, isRetryable) => {
+    transport.request.mockRejectedValue(new TransportError('http', 'failed', {
+      status,
+      headers: { 'x-request-id': 'server-req' },
+      data: FIXTURE_ERROR_VALIDATION,
+    }));
+
+    const error = await client.taxonomy.getTree().catch((e) => e);
+
+    expect(error).toBeInstanceOf(LegitmarkError);
+    expect(error.code).toBe(code);
+    expect(error.isRetryable).toBe(isRetryable);
+    expect(error.context.statusCode).toBe(status);
+    expect(error.context.requestId).toBe('server-req');
+    expect(error.message).toBe(FIXTURE_ERROR_VALIDATION.error.message);
+  });
+
+  it('maps timeout and network failures', async () => {
+    transport.request.mockRejectedValueOnce(new TransportError('timeout', 'timed out'));
+    transport.request.mockRejectedValueOnce(new TransportError('network', 'ECONNREFUSED'));
+
+    await expect(client.taxonomy.getTree()).rejects.toMatchObject({ code: 'TIMEOUT_ERROR' });
+    await expect(client.taxonomy.getTree()).rejects.toMatchObject({ code: 'NETWORK_ERROR' });
+  });
+
+  it('maps aborted transport failures to ABORT_ERROR', async () => {
+    transport.request.mockRejectedValue(new TransportError('aborted', 'Request aborted'));
+
+    await expect(client.taxonomy.getTree()).rejects.toMatchObject({ code: 'ABORT_ERROR', isRetryable: false });
+  });
+
+  it('rejects without calling the transport when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(client.sr.get(FIXTURE_SR.uuid, { signal: controller.signal }))
+      .rejects.toMatchObject({ code: 'ABORT_ERROR' });
+    expect(transport.request).not.toHaveBeenCalled();
+  });
+
+  it('passes per-call and withOptions signals to the transport', async () => {
+    transport.request.mockResolvedValue({ status: 200, headers: {}, data: {} });
+    const perCall = new AbortController();
+    const scoped = new AbortController();
+
+    await client.taxonomy.getBrandsForType('type-uuid', { signal: perCall.signal });
+    await client.withOptions({ signal: scoped.signal }).taxonomy.getTree();
+
+    expect(transport.request.mock.calls[0][0].signal).toBe(perCall.signal);
+    expect(transport.request.mock.calls[1][0].signal).toBe(scoped.signal);
+  });
+
+  it('resolves built-in transports by name', () => {
+    expect(() => new PartnerClient({ apiKey: TEST_API_KEY, transport: 'fetch' })).not.toThrow();
+    expect(() => new PartnerClient({ apiKey: TEST_API_KEY, transport: 'axios' })).not.toThrow();
+  });
+});
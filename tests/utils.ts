@@ -9,13 +9,24 @@ export const TEST_API_KEY = 'leo_test_key';
 export function createMockClient() {
   return {
     _get: vi.fn(),
+    _getCached: vi.fn(),
     _post: vi.fn(),
+    _patch: vi.fn(),
     _getAsset: vi.fn(),
     _uploadToUrl: vi.fn(),
     _log: vi.fn(),
   };
 }
 
+/**
+ * Creates a mock transport for exercising PartnerClient without network access.
+ */
+export function createMockTransport() {
+  return {
+    request: vi.fn(),
+  };
+}
+
 /**
  * Sets up environment variable backup/restore for tests that modify process.env.
  * Call this at the top level of a describe block.
@@ -1,4 +1,4 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, expectTypeOf } from 'vitest';
 
 import {
   parseWebhookEvent,
@@ -10,6 +10,9 @@ import {
   isAuthenticationInProgress,
   WEBHOOK_EVENT_TYPES,
 } from '../src/webhooks';
+import { describeState, isKnownState, isTerminal } from '../src/sr-state';
+import type { SRState, UnknownSRState } from '../src/types';
+import type { StateChangeEvent } from '../src/webhooks';
 
 import {
   FIXTURE_STATE_CHANGE_AUTHENTIC,
@@ -95,6 +98,19 @@ describe('parseWebhookEvent', () => {
       })).toThrow('state.primary');
     });
 
+    it('accepts states added after this SDK version', () => {
+      const event = parseWebhookEvent({
+        event_type: 'state_change', sr_uuid: 'x', timestamp: 'x', state: { primary: 'ON_HOLD', supplement: 'MAYBE' },
+      });
+
+      const { state } = event as StateChangeEvent;
+      expectTypeOf(state).toEqualTypeOf<SRState | UnknownSRState>();
+      expect(state).toEqual({ primary: 'ON_HOLD', supplement: 'MAYBE' });
+      expect(isKnownState(state)).toBe(false);
+      expect(describeState(state)).toBe('Status: ON_HOLD');
+      expect(isTerminal(state)).toBe(false);
+    });
+
     it('throws on media_rejected without sides array', () => {
       expect(() => parseWebhookEvent({ event_type: 'media_rejected', sr_uuid: 'x', timestamp: 'x' }))
         .toThrow('sides');